@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import type { Agent, AgentTool, ToolContext } from './types';
+
+const DEFAULT_MAX_DEPTH = 3;
+
+const defaultInputSchema = z.object({
+  prompt: z.string().describe('The task for the agent, with everything it needs to know to complete it'),
+});
+
+export interface AgentAsToolOptions<TInput, TOutput> {
+  name?: string;                                   // Defaults to the agent's name
+  description?: string;
+  inputSchema?: z.ZodType<TInput>;                 // Defaults to `{ prompt: string }`
+  toPrompt?: (input: TInput) => string;            // Defaults to `input.prompt`, or the input as JSON
+  outputSchema?: z.ZodType<TOutput>;               // The tool returns the child's validated structured output
+  maxDepth?: number;                               // Deepest allowed nesting of agents (default 3)
+}
+
+function defaultToPrompt(input: unknown): string {
+  if (input && typeof input === 'object' && typeof (input as { prompt?: unknown }).prompt === 'string') {
+    return (input as { prompt: string }).prompt;
+  }
+  return JSON.stringify(input);
+}
+
+/**
+ * Turns an agent into a tool another agent can call.
+ * The child runs in the caller's trace beneath the tool span, with the caller's
+ * user, logger and metadata. It returns its structured output when an output
+ * schema is given, and its text otherwise.
+ *
+ * Example usage:
+ * ```typescript
+ * const writer = createAgent({
+ *   name: 'writer',
+ *   model: 'openai:gpt-4o',
+ *   tools: { research: agentAsTool(researchAgent, { outputSchema: researchSchema }) }
+ * });
+ * ```
+ */
+export function agentAsTool<TInput = { prompt: string }, TOutput = string, TAgentOutput = unknown>(
+  agent: Agent<TAgentOutput>,
+  options: AgentAsToolOptions<TInput, TOutput> = {}
+): AgentTool<TInput, TOutput> {
+  const {
+    name = agent.config.name,
+    description = `Delegates a task to the ${agent.config.name} agent`,
+    inputSchema = defaultInputSchema as unknown as z.ZodType<TInput>,
+    toPrompt = defaultToPrompt,
+    outputSchema,
+    maxDepth = DEFAULT_MAX_DEPTH
+  } = options;
+
+  return {
+    name,
+    description,
+    parameters: inputSchema,
+    // A child run is a new run: repeating the same delegation should ask the agent again
+    cache: false,
+
+    async execute(input: TInput, context: ToolContext): Promise<TOutput> {
+      const depth = (context.agentDepth ?? 0) + 1;
+      if (depth > maxDepth) {
+        throw new Error(`${name} agent cannot run: agents are nested more than ${maxDepth} levels deep`);
+      }
+
+      const response = await agent.generate({
+        prompt: toPrompt(input),
+        // The tool's schema replaces the agent's own for this run
+        outputSchema: outputSchema as z.ZodType<TAgentOutput> | undefined,
+        context: {
+          userId: context.userId,
+          logging: context.logging,
+          metadata: context.metadata,
+          parentSpan: context.parentSpan,
+          agentDepth: depth
+        }
+      });
+
+      // The parent run cannot resume the child; give this tool requiresApproval instead
+      if (response.status === 'suspended') {
+        const tools = response.pendingApprovals?.map(approval => approval.toolName).join(', ');
+        throw new Error(`${name} agent was suspended for approval of ${tools}; nested agents cannot wait for approval`);
+      }
+
+      return (outputSchema ? response.structuredOutput : response.text) as TOutput;
+    }
+  };
+}
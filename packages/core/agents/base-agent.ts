@@ -1,123 +1,957 @@
-import { createDataStreamResponse, streamText } from 'ai';
-import type { 
+import { createDataStreamResponse, generateText, streamText, wrapLanguageModel } from 'ai';
+import type {
+  CoreMessage,
+  CoreTool,
+  DataStreamWriter,
+  JSONValue,
+  LanguageModel,
+  LanguageModelV1StreamPart,
+  ProviderMetadata,
+  StepResult,
+  ToolSet
+} from 'ai';
+import { v4 as uuidv4 } from 'uuid';
+import { ZodType } from 'zod';
+import { FALLBACK_MODEL_ID_SEPARATOR, getFallbackMetadata } from '../model-providers/fallback-model';
+import { resolveModel } from '../model-providers/index';
+import { getBilledModelId, getModelInfo } from '../model-providers/model-configs';
+import { createGuardrailError, guardMessages, recordGuardrailSpan, runGuardrails } from '../guardrails/run-guardrails';
+import type { GuardrailEvent } from '../guardrails/run-guardrails';
+import { bindLogger } from '../logging/logger';
+import { createInMemoryRunStore } from '../runs/in-memory-run-store';
+import type { RunState, RunToolCall } from '../runs/types';
+import { createToolResultCache } from '../tools/tool-cache';
+import { resolveTracer } from '../tracing/resolve-tracer';
+import type { Trace, TraceSpan } from '../tracing/types';
+import type {
   Agent,
-  AgentConfig, 
-  AgentRuntimeOptions,
+  AgentConfig,
   AgentEvent,
+  AgentMessage,
+  AgentResponse,
+  AgentResumeOptions,
+  AgentRuntimeOptions,
+  AgentToolSet,
+  Logger,
+  PendingToolApproval,
+  RunUsage,
+  StepUsage,
+  ToolApprovalDecision,
   ToolContext
 } from './types';
-import { ensureTraceFlushed } from './utils';
+import { fitToContext } from './context-manager';
+import { generateStructuredOutput } from './structured-output';
+import { createStepSpans } from './step-spans';
+import { wrapTools } from './tool-wrapper';
+import { createUsageTracker } from './usage';
+import { ensureTraceFlushed, safeTraceOperation } from './utils';
+
+// Shared default so a run suspended by one agent instance can be resumed by another in the same process
+const defaultRunStore = createInMemoryRunStore();
+
+// Fields shared by the generateText result and the streamText onFinish event
+interface RunResult {
+  text: string;
+  finishReason: string;
+  steps: StepResult<ToolSet>[];
+  response: { messages: CoreMessage[] };
+}
+
+function toCoreMessages(messages: AgentMessage[] = [], prompt?: string): CoreMessage[] {
+  const history: CoreMessage[] = messages.map(({ role, content }) => ({ role, content }));
+  return prompt ? [...history, { role: 'user', content: prompt }] : history;
+}
+
+// The messages of a run without its final answer, which an output guardrail rejected
+function withoutFinalAnswer(messages: CoreMessage[]): CoreMessage[] {
+  const last = messages[messages.length - 1];
+  const calledTools = Array.isArray(last?.content) && last.content.some(part => part.type === 'tool-call');
+  return last?.role === 'assistant' && !calledTools ? messages.slice(0, -1) : messages;
+}
+
+// Puts the text of an answer rewritten by output guardrails into its message, for memory
+function replaceFinalAnswer(messages: CoreMessage[], text: string): CoreMessage[] {
+  const last = messages[messages.length - 1];
+  if (last?.role !== 'assistant') return messages;
+  const content = typeof last.content === 'string'
+    ? text
+    : [...last.content.filter(part => part.type !== 'text'), { type: 'text' as const, text }];
+  return [...messages.slice(0, -1), { ...last, content }];
+}
+
+// The tool calls of a run's steps with their results
+function toolCallsOf(steps: StepResult<ToolSet>[]): RunToolCall[] {
+  const toolResults = steps.flatMap(step => step.toolResults) as { toolCallId: string; result: unknown }[];
+  return steps.flatMap(step => step.toolCalls).map(({ toolCallId, toolName, args }) => ({
+    toolCallId,
+    toolName,
+    args,
+    result: toolResults.find(toolResult => toolResult.toolCallId === toolCallId)?.result
+  }));
+}
+
+/**
+ * Builds the AgentResponse from the steps of a finished run. A resumed run passes the
+ * tool calls it made before it was suspended, as approved, edited or rejected.
+ */
+function buildResponse<TOutput>(
+  result: RunResult,
+  { runId, traceId }: { runId: string; traceId: string },
+  usage: RunUsage,
+  structuredOutput?: TOutput,
+  earlierToolCalls: RunToolCall[] = []
+): AgentResponse<TOutput> {
+  const toolCalls = [...earlierToolCalls, ...toolCallsOf(result.steps)];
 
-export function createAgent(config: AgentConfig): Agent {
   return {
-    config,
-    async run({ messages, streamCallbacks, context = {} }: AgentRuntimeOptions) {
-      const { logging } = context;
-      const logger = logging?.logger;
-
-      // Helper for safe logging
-      const log = {
-        debug: (msg: string, meta?: any) => logger?.debug(msg, meta),
-        info: (msg: string, meta?: any) => logger?.info(msg, meta),
-        warn: (msg: string, meta?: any) => logger?.warn(msg, meta),
-        error: (msg: string, meta?: any) => logger?.error(msg, meta),
+    text: result.text,
+    finishReason: result.finishReason,
+    runId,
+    traceId,
+    toolCalls: toolCalls.map(({ toolName, args }) => ({ toolName, args })),
+    structuredOutput,
+    usage,
+    status: 'complete',
+    messages: [{
+      role: 'assistant',
+      content: [
+        { type: 'text', text: result.text },
+        ...toolCalls.map(toolCall => ({
+          type: 'tool_call' as const,
+          toolName: toolCall.toolName,
+          args: toolCall.args,
+          toolResults: toolCall.result
+        }))
+      ]
+    }]
+  };
+}
+
+/**
+ * Rejects settings the model cannot honour, based on the capabilities in the model registry.
+ * Every model of a fallback chain is checked; models missing from the registry are not.
+ */
+function validateModelOptions(
+  model: LanguageModel,
+  settings: {
+    tools?: AgentToolSet;
+    requireStructuredOutput?: boolean;
+    hasOutputSchema: boolean;
+    maxTokens?: number;
+    messages: CoreMessage[];
+  },
+  log: Logger
+) {
+  const hasImages = settings.messages.some(message =>
+    Array.isArray(message.content) && message.content.some(part => part.type === 'image')
+  );
+
+  for (const modelId of model.modelId.split(FALLBACK_MODEL_ID_SEPARATOR)) {
+    const info = getModelInfo(modelId);
+    if (!info) continue;
+
+    if (!info.toolCalling) {
+      if (settings.requireStructuredOutput || settings.hasOutputSchema) {
+        throw new Error(`Model ${modelId} does not support tool calling, which structured output requires`);
+      }
+      if (settings.tools && Object.keys(settings.tools).length > 0) {
+        throw new Error(`Model ${modelId} does not support tool calling`);
+      }
+    }
+    if (!info.vision && hasImages) {
+      throw new Error(`Model ${modelId} does not accept image inputs`);
+    }
+    if (settings.maxTokens && settings.maxTokens > info.maxOutputTokens) {
+      log.warn(`maxTokens exceeds the output limit of ${modelId}`, {
+        maxTokens: settings.maxTokens,
+        maxOutputTokens: info.maxOutputTokens
+      });
+    }
+  }
+}
+
+/**
+ * Checks that the decisions passed to resumeRun match the run's pending approvals one to one
+ */
+function validateApprovals(state: RunState, approvals: ToolApprovalDecision[]) {
+  for (const pending of state.pendingApprovals) {
+    if (!approvals.some(decision => decision.approvalId === pending.approvalId)) {
+      throw new Error(`Run ${state.runId} needs a decision for tool call ${pending.approvalId} (${pending.toolName})`);
+    }
+  }
+  for (const decision of approvals) {
+    if (!state.pendingApprovals.some(pending => pending.approvalId === decision.approvalId)) {
+      throw new Error(`Run ${state.runId} has no pending approval ${decision.approvalId}`);
+    }
+  }
+}
+
+// Puts the arguments and result of a tool call in place of those recorded when the run was suspended
+function replaceToolCall(messages: CoreMessage[], toolCallId: string, args: unknown, result: unknown): CoreMessage[] {
+  return messages.map(message => {
+    if (message.role === 'assistant' && Array.isArray(message.content)) {
+      return {
+        ...message,
+        content: message.content.map(part =>
+          part.type === 'tool-call' && part.toolCallId === toolCallId ? { ...part, args } : part
+        )
       };
+    }
+    if (message.role === 'tool') {
+      return {
+        ...message,
+        content: message.content.map(part => (part.toolCallId === toolCallId ? { ...part, result } : part))
+      };
+    }
+    return message;
+  });
+}
 
-      return createDataStreamResponse({
-        execute: async (dataStream) => {
-          // Store dataStream in context for tools
-          context.dataStream = dataStream;
+/**
+ * Carries out the decisions on a suspended run's tool calls: approved and edited calls
+ * are executed through the wrapped tools, rejected calls get a rejection as their result
+ */
+async function resolveApprovals(
+  state: RunState,
+  approvals: ToolApprovalDecision[],
+  tools: AgentToolSet,
+  wrappedTools: Record<string, CoreTool>,
+  emit: (event: AgentEvent) => void,
+  log: Logger
+): Promise<Pick<RunState, 'messages' | 'turnMessages' | 'toolCalls'>> {
+  let { messages, turnMessages, toolCalls = [] } = state;
+
+  for (const pending of state.pendingApprovals) {
+    const decision = approvals.find(approval => approval.approvalId === pending.approvalId) as ToolApprovalDecision;
+    log.info(`Tool call ${decision.action === 'reject' ? 'rejected' : 'approved'}: ${pending.toolName}`, { ...decision });
+    emit({ type: 'approval-resolved', content: { approvalId: pending.approvalId, toolName: pending.toolName, action: decision.action } });
 
-          log.info('Starting agent run', { 
-            agentName: config.name,
-            messagesCount: messages.length 
+    let args = pending.args;
+    let result: unknown;
+    if (decision.action === 'reject') {
+      result = { status: 'rejected', reason: decision.reason ?? 'The user rejected this tool call' };
+    } else {
+      const execute = wrappedTools[pending.toolName]?.execute;
+      if (!execute) {
+        throw new Error(`Tool ${pending.toolName} is not available to resume run ${state.runId}`);
+      }
+
+      if (decision.action === 'edit') {
+        const { parameters } = tools[pending.toolName];
+        args = parameters instanceof ZodType ? parameters.parse(decision.args) : decision.args;
+      }
+      result = await execute(args, { toolCallId: pending.approvalId, messages });
+    }
+
+    messages = replaceToolCall(messages, pending.approvalId, args, result);
+    turnMessages = replaceToolCall(turnMessages, pending.approvalId, args, result);
+    toolCalls = toolCalls.map(toolCall => (toolCall.toolCallId === pending.approvalId ? { ...toolCall, args, result } : toolCall));
+  }
+
+  return { messages, turnMessages, toolCalls };
+}
+
+/**
+ * Sets up everything a run needs, independent of whether it streams:
+ * model and settings, trace and run span, wrapped tools and the event emitter
+ */
+async function prepareRun<TOutput>(
+  config: AgentConfig<TOutput>,
+  options: AgentRuntimeOptions<TOutput>,
+  dataStream?: DataStreamWriter,
+  resumed?: { state: RunState; approvals: ToolApprovalDecision[] }
+) {
+  const systemPrompt = options.systemPrompt ?? config.systemPrompt;
+  const tools = options.tools ?? config.tools;
+  const maxSteps = options.maxSteps ?? config.maxSteps ?? 3;
+  const requireStructuredOutput = options.requireStructuredOutput ?? config.requireStructuredOutput;
+  const outputSchema = options.outputSchema ?? config.outputSchema;
+  const maxOutputRetries = options.maxOutputRetries ?? config.maxOutputRetries ?? 2;
+  const maxTokens = options.maxTokens ?? config.maxTokens;
+  let newMessages = toCoreMessages(options.messages, options.prompt);
+
+  const logging = options.context?.logging;
+  const tracer = resolveTracer(config.tracer ?? logging?.tracer, config.langfuse ?? logging?.langfuse);
+  const parentTrace = config.trace ?? logging?.trace;
+  let trace: Trace | undefined = parentTrace;
+
+  // Every run has its own id, so nested runs sharing a trace never share stored state.
+  // Runs inside an existing trace (e.g. an agent used as a tool) keep its id; resumed runs keep their trace.
+  const runId = resumed?.state.runId ?? options.runId ?? uuidv4();
+  const traceId = resumed?.state.traceId ??
+    (config.traceId || (trace && !config.createNewTrace ? trace.id : uuidv4()));
+
+  const log = bindLogger(logging?.logger, { agent: config.name, runId });
+  // Fallback chains report skipped models and failovers through the run's logger
+  const model = resolveModel(options.model ?? config.model, { logger: log });
+  const emit = (event: AgentEvent) => {
+    options.onEvent?.(event);
+    dataStream?.writeData(event as unknown as JSONValue);
+  };
+
+  // Input guardrails see new user messages before they are traced, stored or sent to the model.
+  // Their decisions are emitted and traced once the run span exists.
+  const { guardrails } = config;
+  const inputDecisions: GuardrailEvent[] = [];
+  let inputBlocked: Error | undefined;
+  if (!resumed && guardrails?.input?.length) {
+    const checked = await guardMessages(newMessages, guardrails.input, {
+      stage: 'input',
+      context: options.context ?? {},
+      emit: (event) => inputDecisions.push(event as GuardrailEvent),
+      log
+    });
+    newMessages = checked.messages;
+    inputBlocked = checked.error;
+  }
+
+  // Load the stored conversation; the messages passed to this run are new turns.
+  // A resumed run continues from its stored messages instead.
+  const { memory } = config;
+  const conversationId = options.conversationId ?? options.context?.userId;
+  if (memory && !conversationId) {
+    log.warn('Agent has memory but no conversationId or userId was given; history is not persisted');
+  }
+  const history = !resumed && memory && conversationId ? await memory.load(conversationId) : [];
+  const messages = resumed ? resumed.state.messages : [...history, ...newMessages];
+  let turnMessages = resumed ? resumed.state.turnMessages : newMessages;
+  // Tool calls made before a resumed run was suspended or interrupted
+  let earlierToolCalls = resumed?.state.toolCalls ?? [];
+
+  validateModelOptions(model, {
+    tools,
+    requireStructuredOutput,
+    hasOutputSchema: !!outputSchema,
+    maxTokens,
+    messages
+  }, log);
+
+  // Refuses the run when the user's budget is already used up
+  const budget = options.budget ?? config.budget;
+  const usage = createUsageTracker(budget, options.context?.userId, resumed?.state.usage, resumed?.state.persistedSteps);
+  await usage.start();
+
+  // Create new trace if requested or none exists
+  if (tracer && (!trace || config.createNewTrace)) {
+    trace = await safeTraceOperation(
+      async () => tracer.trace({
+        id: traceId,
+        name: `${config.name}-trace`,
+        userId: options.context?.userId,
+        metadata: {
+          ...config.metadata,
+          parentTraceId: config.parentTraceId,
+          isServerless: config.isServerless,
+          requireStructuredOutput,
+          maxSteps,
+          model: model.modelId
+        },
+        // Keep the input of the run that was suspended
+        ...(!resumed && {
+          input: {
+            systemPrompt,
+            // As rewritten by input guardrails, which include the prompt in the new messages
+            messages: guardrails?.input?.length ? newMessages : options.messages,
+            ...(!guardrails?.input?.length && { prompt: options.prompt }),
+            tools: Object.keys(tools || {})
+          }
+        })
+      }),
+      'Failed to create trace'
+    ) ?? trace;
+  }
+
+  // Main span for the agent execution, with a span per step beneath it that holds the
+  // step's generation and tool calls. Nested runs in the parent's trace go beneath the
+  // tool call that started them.
+  const parentSpan = trace === parentTrace ? options.context?.parentSpan : undefined;
+  const runSpan: TraceSpan | undefined = await safeTraceOperation(
+    async () => (parentSpan ?? trace)?.span({
+      name: `${config.name}-agent-execution`,
+      input: {
+        systemPrompt,
+        messages,
+        conversationId,
+        historyMessages: history.length,
+        resumed: !!resumed,
+        parentTraceId: config.parentTraceId,
+        ...config.metadata
+      }
+    }),
+    'Failed to create agent span'
+  );
+
+  // A resumed run only gets the steps it has left
+  const completedSteps = resumed ? resumed.state.usage.filter(step => step.source === 'step').length : 0;
+  const stepSpans = createStepSpans(model, runSpan, completedSteps + 1);
+
+  const context: ToolContext = {
+    ...options.context,
+    runId,
+    traceId,
+    agentName: config.name,
+    dataStream,
+    // Tools and nested agents log with the run's bindings
+    logging: { ...logging, ...(logging?.logger && { logger: log }), tracer, trace }
+  };
+
+  log.info('Starting agent run', {
+    agentName: config.name,
+    runId,
+    traceId,
+    messagesCount: messages.length
+  });
+  emit({ type: 'agent-start', content: { name: config.name, traceId } });
+  for (const decision of inputDecisions) {
+    emit(decision);
+    await safeTraceOperation(async () => recordGuardrailSpan(runSpan, decision.content), 'Failed to record guardrail span');
+  }
+
+  // Compact older turns if the conversation no longer fits the model's context window;
+  // resumed runs were compacted before they were suspended
+  let promptMessages = config.contextManagement === false || resumed
+    ? messages
+    : await fitToContext({
+        model,
+        system: systemPrompt,
+        messages,
+        maxOutputTokens: maxTokens,
+        options: config.contextManagement ?? {},
+        parentSpan: runSpan,
+        emit,
+        log
+      });
+
+  // Tool calls held for approval; the run is suspended once the step that made them finishes
+  const runStore = config.runStore ?? defaultRunStore;
+  const pendingApprovals: PendingToolApproval[] = [];
+  const approvedToolCalls = new Set(
+    resumed?.approvals.filter(decision => decision.action !== 'reject').map(decision => decision.approvalId)
+  );
+
+  const wrappedTools = tools
+    ? wrapTools(tools, {
+        context,
+        trace,
+        parentSpan: () => stepSpans.current() ?? runSpan,
+        toolCache: createToolResultCache(config.toolCache, { runId, conversationId }),
+        approvedToolCalls,
+        requestApproval: (approval) => {
+          pendingApprovals.push(approval);
+          emit({ type: 'approval-required', content: { runId, ...approval } });
+        },
+        toolResultGuardrails: guardrails?.toolResults,
+        emit,
+        log
+      })
+    : undefined;
+
+  // Aborts the run once a budget is exceeded or a tool call needs approval, as well as on the caller's signal
+  const runController = new AbortController();
+  let budgetError: Error | undefined;
+  const steps: StepResult<ToolSet>[] = [];
+
+  const enforceBudget = () => {
+    const budgetCheck = usage.checkBudget();
+    if (budgetCheck && !budgetError) {
+      budgetError = budgetCheck.error;
+      log.warn('Budget exceeded, aborting run', { ...budgetCheck.exceeded });
+      emit({ type: 'budget-exceeded', content: budgetCheck.exceeded });
+      runController.abort(budgetError);
+    }
+    return budgetError;
+  };
+
+  // streamText starts the next step before onStepFinish runs, so usage is recorded as each
+  // model call finishes, and the budget and pending approvals are checked before the next call.
+  // onStepFinish takes the usage of its step from here.
+  const unfinishedStepUsage: StepUsage[] = [];
+  const recordCall = (
+    callUsage: { promptTokens: number; completionTokens: number },
+    responseModelId?: string,
+    providerMetadata?: ProviderMetadata
+  ) => {
+    const billedModelId = getBilledModelId(model.modelId, responseModelId, providerMetadata);
+    unfinishedStepUsage.push(usage.record('step', billedModelId, callUsage));
+  };
+  const beforeCall = () => {
+    const error = enforceBudget();
+    if (error) throw error;
+    // The model must not see the placeholder results of calls awaiting approval
+    if (pendingApprovals.length > 0) throw new Error('Run suspended for tool approval');
+  };
+  const guardedModel = wrapLanguageModel({
+    model: stepSpans.model,
+    middleware: {
+      wrapGenerate: async ({ doGenerate }) => {
+        beforeCall();
+        const result = await doGenerate();
+        recordCall(result.usage, result.response?.modelId, result.providerMetadata);
+        return result;
+      },
+
+      wrapStream: async ({ doStream }) => {
+        beforeCall();
+        const { stream, ...rest } = await doStream();
+        let responseModelId: string | undefined;
+        return {
+          ...rest,
+          stream: stream.pipeThrough(new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+            transform(part, controller) {
+              if (part.type === 'response-metadata') responseModelId = part.modelId ?? responseModelId;
+              if (part.type === 'finish') recordCall(part.usage, responseModelId, part.providerMetadata);
+              controller.enqueue(part);
+            }
+          }))
+        };
+      }
+    }
+  });
+
+  const callSettings = {
+    model: guardedModel,
+    system: systemPrompt,
+    messages: promptMessages,
+    tools: wrappedTools,
+    toolChoice: wrappedTools ? (requireStructuredOutput ? 'required' as const : 'auto' as const) : undefined,
+    maxSteps: Math.max(maxSteps - completedSteps, 1),
+    temperature: options.temperature ?? config.temperature,
+    maxTokens,
+    abortSignal: options.abortSignal
+      ? AbortSignal.any([options.abortSignal, runController.signal])
+      : runController.signal,
+    experimental_telemetry: trace ? {
+      isEnabled: true,
+      functionId: `${config.name}-${model.modelId}`,
+      metadata: {
+        traceId,
+        agentName: config.name,
+        langfuseTraceId: traceId,
+        parentTraceId: config.parentTraceId ?? '',
+        isServerless: config.isServerless ?? false
+      }
+    } : undefined
+  };
+
+  // The run as it stands after its latest step
+  const currentResult = (): RunResult => {
+    const lastStep = steps[steps.length - 1];
+    return {
+      text: lastStep?.text ?? '',
+      finishReason: lastStep?.finishReason ?? 'tool-calls',
+      steps,
+      response: { messages: lastStep?.response.messages ?? [] }
+    };
+  };
+
+  const snapshot = (status: RunState['status']): RunState => {
+    const { text, finishReason, response } = currentResult();
+    return {
+      runId,
+      traceId,
+      agentName: config.name,
+      status,
+      userId: options.context?.userId,
+      conversationId,
+      messages: [...promptMessages, ...response.messages],
+      turnMessages: [...turnMessages, ...response.messages],
+      toolCalls: [...earlierToolCalls, ...toolCallsOf(steps)],
+      usage: usage.summary().steps,
+      persistedSteps: usage.persistedSteps(),
+      pendingApprovals,
+      lastStep: steps.length > 0 ? { text, finishReason } : resumed?.state.lastStep,
+      updatedAt: new Date().toISOString()
+    };
+  };
+
+  // A lost checkpoint only costs repeated work on resume, so it must not fail the run
+  const saveCheckpoint = async () => {
+    try {
+      await runStore.save(snapshot('running'));
+    } catch (error) {
+      log.warn('Failed to save run checkpoint', { error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  // Stores the run with its pending approvals and responds with the steps completed so far
+  let suspension: Promise<AgentResponse<TOutput>> | undefined;
+  const suspend = () => suspension ??= (async () => {
+    const result = currentResult();
+    const runUsage = usage.summary();
+    await usage.persist();
+    await runStore.save(snapshot('suspended'));
+
+    log.info('Agent run suspended', { runId, pendingApprovals });
+    emit({ type: 'agent-suspended', content: { runId, pendingApprovals, usage: runUsage } });
+    await safeTraceOperation(
+      async () => {
+        stepSpans.endOpen({ level: 'WARNING', statusMessage: 'Run suspended for tool approval' });
+        runSpan?.end({ output: { status: 'suspended', pendingApprovals, usage: runUsage } });
+        trace?.update({ metadata: { completionStatus: 'suspended', pendingApprovals } });
+      },
+      'Failed to log agent suspension'
+    );
+
+    return {
+      ...buildResponse<TOutput>(result, { runId, traceId }, runUsage, undefined, earlierToolCalls),
+      status: 'suspended' as const,
+      pendingApprovals
+    };
+  })();
+
+  return {
+    traceId,
+    callSettings,
+
+    // Set when an input guardrail blocked the run; it fails before the model is called
+    inputBlocked,
+
+    // Checks the final answer. A retry asks the model for a new answer with the reason as
+    // feedback, when the caller can regenerate; otherwise it blocks like a block does.
+    guardOutput: async (result: RunResult, regenerate?: (messages: CoreMessage[]) => Promise<RunResult>): Promise<RunResult> => {
+      const outputGuardrails = guardrails?.output ?? [];
+      const maxRetries = guardrails?.maxOutputRetries ?? 1;
+      let current = result;
+
+      for (let attempt = 0; outputGuardrails.length > 0; attempt++) {
+        const outcome = await runGuardrails(outputGuardrails, current.text, {
+          stage: 'output',
+          context,
+          parentSpan: runSpan,
+          emit,
+          log
+        });
+
+        if (outcome.retry && regenerate && attempt < maxRetries) {
+          const retried = await regenerate([
+            ...callSettings.messages,
+            ...current.response.messages,
+            { role: 'user', content: `Your answer was rejected: ${outcome.retry.reason}\nAnswer again without this problem.` }
+          ]);
+          // The new answer takes the place of the rejected one; the feedback is not kept
+          current = {
+            ...retried,
+            steps: [...current.steps, ...retried.steps],
+            response: { messages: [...withoutFinalAnswer(current.response.messages), ...retried.response.messages] }
+          };
+          continue;
+        }
+
+        const failed = outcome.blocked ?? outcome.retry;
+        if (failed) {
+          throw createGuardrailError('output', failed.guardrail, failed.reason);
+        }
+        return outcome.rewritten
+          ? { ...current, text: outcome.text, response: { messages: replaceFinalAnswer(current.response.messages, outcome.text) } }
+          : current;
+      }
+      return current;
+    },
+
+    // Carries out the approval decisions of a resumed run before it continues
+    resolveApprovals: async () => {
+      if (!resumed || resumed.state.pendingApprovals.length === 0) return;
+
+      const resolved = await resolveApprovals(resumed.state, resumed.approvals, tools ?? {}, wrappedTools ?? {}, emit, log);
+      promptMessages = resolved.messages;
+      turnMessages = resolved.turnMessages;
+      earlierToolCalls = resolved.toolCalls ?? [];
+      callSettings.messages = promptMessages;
+
+      // Approved tools have run; store that so a failure after this point does not run them again
+      await runStore.save({
+        ...resumed.state,
+        ...resolved,
+        status: 'running',
+        pendingApprovals: [],
+        updatedAt: new Date().toISOString()
+      });
+    },
+
+    // A resumed run whose final step was checkpointed before it crashed only has to complete
+    restoredResult: (): RunResult | undefined => {
+      const lastStep = resumed?.state.lastStep;
+      const continues = lastStep?.finishReason === 'tool-calls' && completedSteps < maxSteps;
+      if (!lastStep || continues || resumed.state.pendingApprovals.length > 0) return undefined;
+      return { text: lastStep.text, finishReason: lastStep.finishReason, steps: [], response: { messages: [] } };
+    },
+
+    // Whether an error is the abort after the run was suspended, rather than a failure
+    isSuspending: () => pendingApprovals.length > 0 && !budgetError,
+
+    suspend,
+
+    onStepFinish: async (step: StepResult<ToolSet>) => {
+      log.debug('Step finished', { text: step.text, finishReason: step.finishReason });
+      const fallback = getFallbackMetadata(step.providerMetadata);
+      if (fallback && fallback.failed.length > 0) {
+        log.warn(`Step answered by fallback model ${fallback.provider}:${fallback.modelId}`, { failed: fallback.failed });
+      }
+
+      // Recorded when the step's model call finished
+      const stepUsage = unfinishedStepUsage.shift() ??
+        usage.record('step', getBilledModelId(model.modelId, step.response?.modelId, step.providerMetadata), step.usage);
+      await safeTraceOperation(async () => stepSpans.finish(step), 'Failed to end step span');
+      emit({
+        type: 'step-complete',
+        content: {
+          text: step.text,
+          tokens: stepUsage.totalTokens,
+          usage: stepUsage
+        }
+      });
+
+      enforceBudget();
+
+      // Suspend before the model sees the placeholders of calls awaiting approval
+      steps.push(step);
+      if (pendingApprovals.length > 0 && !runController.signal.aborted) {
+        runController.abort(new Error('Run suspended for tool approval'));
+        await suspend();
+      } else if (config.checkpoints && !runController.signal.aborted) {
+        await saveCheckpoint();
+      }
+
+      await options.streamCallbacks?.onStepFinish?.(step);
+    },
+
+    complete: async (result: RunResult): Promise<AgentResponse<TOutput>> => {
+      // The last step called tools that need approval
+      if (pendingApprovals.length > 0) {
+        return suspend();
+      }
+
+      // Validate the answer into the output schema, or keep the raw text for requireStructuredOutput
+      const structuredOutput = outputSchema
+        ? await generateStructuredOutput({
+            model,
+            schema: outputSchema,
+            system: systemPrompt,
+            messages: [...promptMessages, ...result.response.messages],
+            text: result.text,
+            maxRetries: maxOutputRetries,
+            parentSpan: runSpan,
+            emit,
+            log,
+            onUsage: (outputUsage, modelId) => usage.record('structured-output', modelId, outputUsage)
+          })
+        : requireStructuredOutput ? result.text as TOutput : undefined;
+      const runUsage = usage.summary();
+      const response = buildResponse(result, { runId, traceId }, runUsage, structuredOutput, earlierToolCalls);
+      await usage.persist();
+
+      // Persist this turn, including tool calls and results, for the next run
+      if (memory && conversationId) {
+        await memory.append(conversationId, [...turnMessages, ...result.response.messages]);
+      }
+      if (resumed || config.checkpoints) {
+        await runStore.delete(runId);
+      }
+
+      log.info('Agent finishing', { reason: result.finishReason });
+      emit({
+        type: 'agent-complete',
+        content: {
+          reason: result.finishReason,
+          output: response.structuredOutput ?? response.text,
+          usage: runUsage
+        }
+      });
+
+      // With a fallback chain, record which models actually answered
+      const answeredBy = [...new Set(result.steps.flatMap(step => {
+        const fallback = getFallbackMetadata(step.providerMetadata);
+        return fallback ? [`${fallback.provider}:${fallback.modelId}`] : [];
+      }))];
+
+      await safeTraceOperation(
+        async () => {
+          runSpan?.end({ output: { text: response.text, toolCalls: response.toolCalls, usage: runUsage } });
+          trace?.update({
+            output: response,
+            metadata: {
+              completionStatus: 'success',
+              toolsUsed: response.toolCalls.map(toolCall => toolCall.toolName),
+              usage: {
+                promptTokens: runUsage.promptTokens,
+                completionTokens: runUsage.completionTokens,
+                totalTokens: runUsage.totalTokens,
+                cost: runUsage.cost,
+                byModel: runUsage.byModel
+              },
+              ...(answeredBy.length > 0 && { answeredBy })
+            }
           });
+        },
+        'Failed to update agent trace'
+      );
 
-          // Wrap tools to intercept calls and add logging/streaming
-          const wrappedTools = Object.fromEntries(
-            Object.entries(config.tools).map(([name, tool]) => [
-              name,
-              {
-                name: tool.name,
-                description: tool.description,
-                parameters: tool.parameters,
-                execute: async (args: unknown) => {
-                  log.debug(`Tool call start: ${name}`, args);
-                  
-                  // Emit tool start event
-                  dataStream.writeData({
-                    type: 'tool-start',
-                    content: { name, args }
-                  } as AgentEvent);
-
-                  try {
-                    const result = await tool.execute(args, context);
-                    
-                    log.debug(`Tool call end: ${name}`, { result });
-                    
-                    // Emit tool end event
-                    dataStream.writeData({
-                      type: 'tool-end', 
-                      content: { name, result }
-                    } as AgentEvent);
-
-                    return result;
-                  } catch (error) {
-                    log.error(`Tool call error: ${name}`, { error });
-                    throw error;
-                  }
-                }
-              }
-            ])
-          );
+      await options.streamCallbacks?.onFinish?.(response);
+      return response;
+    },
+
+    // Records the failure and returns the error to surface: a budget abort reports the budget
+    fail: async (error: unknown) => {
+      const failure = budgetError ?? error;
+      const message = failure instanceof Error ? failure.message : String(failure);
+      const runUsage = usage.summary();
+
+      log.error('Agent error', { error: message });
+      emit({ type: 'error', content: { message } });
+      await usage.persist();
+
+      // Keep the checkpoint for resumeRun, now with this run's usage counted for the user
+      if (config.checkpoints && steps.length > 0) {
+        await saveCheckpoint();
+      }
+
+      await safeTraceOperation(
+        async () => {
+          stepSpans.endOpen({ level: 'ERROR', statusMessage: message });
+          runSpan?.end({
+            output: { error: message, usage: runUsage },
+            statusMessage: message,
+            level: 'ERROR'
+          });
+        },
+        'Failed to log agent error'
+      );
+      return failure;
+    },
+
+    // Always try to flush traces in serverless environments or if explicitly created
+    flush: async () => {
+      if (config.isServerless || config.createNewTrace) {
+        await ensureTraceFlushed(tracer);
+      }
+    }
+  };
+}
+
+/**
+ * Runs a prepared run to completion without streaming; an abort for tool approval
+ * resolves with the suspended response instead of failing
+ */
+async function generateRun<TOutput>(run: Awaited<ReturnType<typeof prepareRun<TOutput>>>) {
+  const generate = async (messages: CoreMessage[]) => generateText({
+    ...run.callSettings,
+    messages,
+    onStepFinish: run.onStepFinish
+  });
+
+  try {
+    if (run.inputBlocked) {
+      throw run.inputBlocked;
+    }
+    await run.resolveApprovals();
+    const result = run.restoredResult() ?? await generate(run.callSettings.messages);
+
+    return await run.complete(await run.guardOutput(result, generate));
+  } catch (error) {
+    if (run.isSuspending()) {
+      return await run.suspend();
+    }
+    throw await run.fail(error);
+  } finally {
+    await run.flush();
+  }
+}
+
+/**
+ * Creates an agent that can process messages and use tools, either
+ * returning the full response (`generate`) or streaming it (`stream`).
+ * Runs suspended for tool approval are continued with `resumeRun`.
+ * @param config - Agent configuration including model, tools and tracing options
+ *
+ * Example usage:
+ * ```typescript
+ * const agent = createAgent({
+ *   name: 'weather-agent',
+ *   model: 'openai:gpt-4o-mini',
+ *   systemPrompt: WEATHER_AGENT_PROMPT,
+ *   tools: { getWeather: getWeatherTool },
+ *   tracer: createLangfuseTracer(langfuse), // Optional: any tracing backend
+ *   createNewTrace: true          // Optional: create new trace for each call
+ * });
+ *
+ * const response = await agent.generate({ prompt: 'Weather in London?' });
+ * return agent.stream({ messages });   // Response for a route handler
+ *
+ * // Later, once the user has decided on response.pendingApprovals
+ * await agent.resumeRun(response.runId, { approvals: [{ approvalId, action: 'approve' }] });
+ * ```
+ */
+export function createAgent<TOutput = unknown>(config: AgentConfig<TOutput>): Agent<TOutput> {
+  return {
+    config,
+
+    async generate(options: AgentRuntimeOptions<TOutput>) {
+      return generateRun(await prepareRun(config, options));
+    },
+
+    async resumeRun(runId: string, options: AgentResumeOptions<TOutput> = {}) {
+      const state = await (config.runStore ?? defaultRunStore).load(runId);
+      if (!state) {
+        throw new Error(`No suspended or checkpointed run ${runId} was found`);
+      }
+      if (state.agentName !== config.name) {
+        throw new Error(`Run ${runId} belongs to agent ${state.agentName}, not ${config.name}`);
+      }
+
+      const { approvals = [], ...runOptions } = options;
+      validateApprovals(state, approvals);
+
+      return generateRun(await prepareRun(
+        config,
+        {
+          ...runOptions,
+          conversationId: state.conversationId,
+          context: { userId: state.userId, ...options.context }
+        },
+        undefined,
+        { state, approvals }
+      ));
+    },
+
+    stream(options: AgentRuntimeOptions<TOutput>) {
+      // Set once the run is prepared, so the stream's error handler can tell a suspension from a failure
+      let isSuspending = () => false;
+
+      return createDataStreamResponse({
+        execute: async (dataStream) => {
+          const run = await prepareRun(config, options, dataStream);
+          isSuspending = run.isSuspending;
+          if (run.inputBlocked) {
+            const failure = await run.fail(run.inputBlocked);
+            await run.flush();
+            throw failure;
+          }
 
-          // Run the streaming text generation
           const result = streamText({
-            model: config.model,
-            messages,
-            system: config.systemPrompt,
-            maxSteps: config.maxSteps ?? 3,
-            temperature: config.temperature ?? 0.7,
-            maxTokens: config.maxTokens,
-            tools: wrappedTools,
-            ...streamCallbacks,
-
-            onStepFinish: async (info) => {
-              log.debug('Step finished', info);
-              
-              dataStream.writeData({
-                type: 'step-complete',
-                content: {
-                  text: info.text,
-                  tokens: info.tokens
-                }
-              } as AgentEvent);
-
-              streamCallbacks?.onStepFinish?.(info);
+            ...run.callSettings,
+            onStepFinish: async (step) => {
+              await run.onStepFinish(step);
+              // The model wrapper refuses the next call, so the stream's onError may already have
+              // flushed before this step suspended the run
+              if (run.isSuspending()) {
+                await run.flush();
+              }
             },
-
             onFinish: async (final) => {
-              log.info(`Agent finishing`, { 
-                reason: final.finishReason,
-                output: final.output 
-              });
-
-              // Emit completion event
-              dataStream.writeData({
-                type: 'agent-complete',
-                content: {
-                  reason: final.finishReason,
-                  output: final.output
-                }
-              } as AgentEvent);
-
-              // Try to flush any logging
-              if (logging) {
-                await ensureTraceFlushed(logging);
+              // Output guardrails run once the text has been streamed, so a retry blocks instead
+              try {
+                await run.complete(await run.guardOutput(final));
+              } catch (error) {
+                await run.fail(error);
               }
-
-              streamCallbacks?.onFinish?.(final);
+              await run.flush();
             },
+            onError: async ({ error }) => {
+              if (!run.isSuspending()) {
+                await run.fail(error);
+              }
+              await run.flush();
+            }
           });
 
           // Merge the text stream into our data stream
@@ -125,20 +959,13 @@ export function createAgent(config: AgentConfig): Agent {
         },
 
         onError: (error) => {
-          log.error('Agent error', { error });
-          
-          // Emit error event
-          dataStream?.writeData({
-            type: 'error',
-            content: {
-              message: error.message,
-              error
-            }
-          } as AgentEvent);
-
-          return `Error: ${error.message}`;
+          if (isSuspending()) {
+            return 'Run suspended for tool approval';
+          }
+          const message = error instanceof Error ? error.message : String(error);
+          return `Error: ${message}`;
         }
-      })(streamCallbacks?.stream);
+      });
     }
   };
 }
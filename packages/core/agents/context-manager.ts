@@ -0,0 +1,209 @@
+import { createHash } from 'node:crypto';
+import { generateText } from 'ai';
+import type { CoreMessage, LanguageModel } from 'ai';
+import { resolveModel } from '../model-providers/index';
+import { getContextWindow } from '../model-providers/model-configs';
+import { createMemoryCacheBackend, stableStringify } from '../tools/tool-cache';
+import type { CacheBackend } from '../tools/tool-cache';
+import type { TraceSpan } from '../tracing/types';
+import type { AgentEvent, AgentMessage, ContextManagementOptions, Logger } from './types';
+
+// Rough characters-per-token ratio for English text, plus per-message overhead for roles and formatting
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const DEFAULT_RESERVED_TOKENS = 4096;
+const DEFAULT_KEEP_RECENT_MESSAGES = 6;
+
+const SUMMARY_PROMPT = `Summarize the following conversation between a user and an assistant.
+Keep every fact, decision, user preference and tool result that later turns may rely on.
+Write the summary as short plain-text notes.`;
+
+// Shared default so a conversation's summary carries over to its later runs
+const defaultSummaryCache = createMemoryCacheBackend();
+
+export interface FitToContextOptions {
+  model: LanguageModel;
+  system?: string;
+  messages: CoreMessage[];
+  maxOutputTokens?: number;          // The run's maxTokens, reserved for the completion
+  options: ContextManagementOptions;
+  parentSpan?: TraceSpan;
+  emit: (event: AgentEvent) => void;
+  log: Logger;
+}
+
+/**
+ * Estimates the number of tokens a message takes up in the prompt
+ */
+export function estimateMessageTokens(message: AgentMessage | CoreMessage): number {
+  const content = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+  return Math.ceil(content.length / CHARS_PER_TOKEN) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function sumTokens(messages: CoreMessage[], estimate: (message: CoreMessage) => number) {
+  return messages.reduce((total, message) => total + estimate(message), 0);
+}
+
+/**
+ * Splits the history into turns that start at a user message, so a tool call
+ * is never separated from its result when older turns are dropped
+ */
+function splitTurns(messages: CoreMessage[]): CoreMessage[][] {
+  const turns: CoreMessage[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+// A key for every prefix of the turns, each chained to the one before, so a summary is found by the turns it covers
+function summaryKeys(turns: CoreMessage[][]): string[] {
+  let hash = '';
+  return turns.map(turn => {
+    hash = createHash('sha256').update(`${hash}\n${stableStringify(turn)}`).digest('hex');
+    return `context-summary:${hash}`;
+  });
+}
+
+// Extends the summary of earlier turns with the turns after them
+async function summarize(model: LanguageModel, messages: CoreMessage[], previousSummary?: string): Promise<string> {
+  const transcript = [
+    ...(previousSummary ? [`Summary of the conversation before this part:\n${previousSummary}`] : []),
+    ...messages.map(message => `${message.role}: ${typeof message.content === 'string' ? message.content : JSON.stringify(message.content)}`)
+  ].join('\n');
+
+  const { text } = await generateText({
+    model,
+    system: SUMMARY_PROMPT,
+    prompt: transcript
+  });
+  return text;
+}
+
+/**
+ * Summarizes the removed turns, starting from the cached summary of the longest prefix of
+ * them, so later runs of a conversation only summarize the turns removed since
+ */
+async function summarizeTurns(model: LanguageModel, turns: CoreMessage[][], cache: CacheBackend) {
+  const keys = summaryKeys(turns);
+  for (let covered = turns.length; covered > 0; covered--) {
+    const cached = await cache.get(keys[covered - 1]);
+    if (typeof cached !== 'string') continue;
+    if (covered === turns.length) return { summary: cached, reusedTurns: covered };
+
+    const summary = await summarize(model, turns.slice(covered).flat(), cached);
+    await cache.set(keys[turns.length - 1], summary);
+    return { summary, reusedTurns: covered };
+  }
+
+  const summary = await summarize(model, turns.flat());
+  await cache.set(keys[turns.length - 1], summary);
+  return { summary, reusedTurns: 0 };
+}
+
+/**
+ * Keeps the messages of a run within the model's context window.
+ * Leading system messages and the most recent turns are always kept; older
+ * turns are dropped, or replaced by a summary when the strategy is 'summarize'.
+ */
+export async function fitToContext({
+  model,
+  system,
+  messages,
+  maxOutputTokens,
+  options,
+  parentSpan,
+  emit,
+  log
+}: FitToContextOptions): Promise<CoreMessage[]> {
+  const estimate = options.estimateTokens ?? estimateMessageTokens;
+  const contextWindow = options.contextWindow ?? getContextWindow(model.modelId);
+  if (!contextWindow) {
+    return messages;
+  }
+
+  const systemTokens = system ? estimate({ role: 'system', content: system }) : 0;
+  const reservedTokens = options.reservedTokens ?? maxOutputTokens ?? DEFAULT_RESERVED_TOKENS;
+  const budget = contextWindow - reservedTokens - systemTokens;
+  const tokensBefore = sumTokens(messages, estimate);
+  if (tokensBefore <= budget) {
+    return messages;
+  }
+
+  // Leading system messages (instructions, earlier summaries) are never dropped
+  const leadingCount = messages.findIndex(message => message.role !== 'system');
+  const leading = leadingCount === -1 ? messages : messages.slice(0, leadingCount);
+  const turns = splitTurns(leadingCount === -1 ? [] : messages.slice(leadingCount));
+
+  const keepRecent = options.keepRecentMessages ?? DEFAULT_KEEP_RECENT_MESSAGES;
+  const removedTurns: CoreMessage[][] = [];
+
+  // Drop the oldest turns until the rest fits, never cutting into the most recent messages
+  while (turns.length > 1 && sumTokens([...leading, ...turns.flat()], estimate) > budget) {
+    const remaining = turns.flat().length - turns[0].length;
+    if (remaining < keepRecent) break;
+    removedTurns.push(turns[0]);
+    turns.shift();
+  }
+  const removed = removedTurns.flat();
+  const kept = turns.flat();
+
+  if (removed.length === 0) {
+    log.warn('Conversation exceeds the context budget but no turns can be removed', { budget, tokensBefore });
+    return messages;
+  }
+
+  const span = parentSpan?.span({
+    name: 'context-compaction',
+    input: {
+      strategy: options.strategy ?? 'trim',
+      contextWindow,
+      budget,
+      tokensBefore,
+      removedMessages: removed.length
+    }
+  });
+
+  let compacted = [...leading, ...kept];
+  let summary: string | undefined;
+  let reusedTurns = 0;
+
+  if (options.strategy === 'summarize') {
+    try {
+      const summarizer = resolveModel(options.summarizer ?? model, { logger: log });
+      ({ summary, reusedTurns } = await summarizeTurns(summarizer, removedTurns, options.summaryCache ?? defaultSummaryCache));
+      compacted = [
+        ...leading,
+        { role: 'system', content: `Summary of the earlier conversation:\n${summary}` },
+        ...kept
+      ];
+    } catch (error) {
+      // Fall back to trimming; losing the summary is better than failing the run
+      log.warn('Failed to summarize conversation history, trimming instead', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  const tokensAfter = sumTokens(compacted, estimate);
+  const strategy = summary ? 'summarize' : 'trim';
+
+  log.info('Compacted conversation history', {
+    strategy,
+    tokensBefore,
+    tokensAfter,
+    removedMessages: removed.length,
+    ...(summary && { summarizedTurns: removedTurns.length - reusedTurns })
+  });
+  emit({
+    type: 'context-compacted',
+    content: { strategy, removedMessages: removed.length, tokensBefore, tokensAfter }
+  });
+  span?.end({ output: { strategy, tokensAfter, summary, ...(summary && { reusedTurns }) } });
+
+  return compacted;
+}
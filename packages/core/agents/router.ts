@@ -0,0 +1,255 @@
+import { generateObject } from 'ai';
+import type { LanguageModel, LanguageModelUsage } from 'ai';
+import type { Langfuse } from 'langfuse';
+import { z } from 'zod';
+import { bindLogger } from '../logging/logger';
+import { resolveModel } from '../model-providers/index';
+import { getBilledModelId } from '../model-providers/model-configs';
+import { resolveTracer } from '../tracing/resolve-tracer';
+import type { Trace, Tracer } from '../tracing/types';
+import type { Agent, AgentResponse, AgentRuntimeOptions, ToolContext } from './types';
+import { createUsageTracker } from './usage';
+import { safeTraceOperation } from './utils';
+
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+const DEFAULT_CLARIFYING_QUESTION = 'Could you tell me a bit more about what you would like me to do?';
+
+const ROUTER_PROMPT = `You route user requests to the agent best suited to handle them.
+Pick exactly one route from the list below. Rate your confidence from 0 to 1 that the route is right.
+If the request is ambiguous or missing information, give a low confidence and a short question that would resolve it.
+
+Routes:`;
+
+export interface Route<TOutput = unknown> {
+  agent: Agent<TOutput>;
+  description: string;                     // Tells the classifier when to pick this route
+}
+
+// Routes keyed by name, typed by the structured output of each route's agent
+export interface RouterConfig<TOutputs extends Record<string, unknown>, TContext> {
+  name?: string;                           // Used for spans and logs (default 'router')
+  model: LanguageModel | string | string[];
+  routes: { [TRoute in keyof TOutputs]: Route<TOutputs[TRoute]> };
+  schema?: z.ZodType<TContext>;            // Details to extract along with the route, passed to the agent
+  systemPrompt?: string;                   // Extra routing instructions
+  minConfidence?: number;                  // Below this the low-confidence handling applies (default 0.5)
+  onLowConfidence?: 'clarify' | 'default'; // Ask a clarifying question, or use the default route (default 'clarify')
+  defaultRoute?: keyof TOutputs & string;  // Used for low confidence ('default') and when classification fails
+  tracer?: Tracer;                         // Creates a trace when the context has none
+  langfuse?: Langfuse;                     // Shorthand for tracer: createLangfuseTracer(langfuse)
+}
+
+export type RouterDecision<TRoute extends string, TContext, TOutput = unknown> =
+  | {
+      type: 'route';
+      route: TRoute;
+      agent: Agent<TOutput>;
+      confidence: number;
+      reasoning: string;
+      context?: TContext;
+      isDefault: boolean;                  // The default route was used instead of the classified one
+    }
+  | {
+      type: 'clarify';
+      question: string;
+      confidence: number;
+      reasoning: string;
+      suggestedRoute?: TRoute;
+    };
+
+// Passed on to the chosen agent; `context` is also used for the routing span
+export type RouterRunOptions<TOutput = unknown> = Omit<AgentRuntimeOptions<TOutput>, 'prompt'>;
+
+export type RouterResult<TRoute extends string, TContext, TOutput = unknown> =
+  | { decision: Extract<RouterDecision<TRoute, TContext, TOutput>, { type: 'route' }>; response: AgentResponse<TOutput> }
+  | { decision: Extract<RouterDecision<TRoute, TContext, TOutput>, { type: 'clarify' }>; response?: undefined };
+
+/**
+ * Creates a router that classifies input into one of its routes with structured output.
+ * Each decision has a confidence score; below `minConfidence` the router asks a clarifying
+ * question or falls back to the default route. Decisions are logged as a span of the trace.
+ *
+ * Example usage:
+ * ```typescript
+ * const router = createRouter({
+ *   model: 'openai:gpt-4o-mini',
+ *   routes: {
+ *     research: { agent: researchAgent, description: 'Questions that need research' },
+ *     writing: { agent: writerAgent, description: 'Requests to write or edit content' }
+ *   },
+ *   defaultRoute: 'writing'
+ * });
+ *
+ * const result = await router.run('Write a LinkedIn post about AI trends');
+ * if (result.decision.type === 'clarify') askUser(result.decision.question);
+ * ```
+ */
+export function createRouter<TOutputs extends Record<string, unknown>, TContext = undefined>(
+  config: RouterConfig<TOutputs, TContext>
+) {
+  type TRoute = keyof TOutputs & string;
+  type TOutput = TOutputs[TRoute];
+  const {
+    name = 'router',
+    routes,
+    schema,
+    minConfidence = DEFAULT_MIN_CONFIDENCE,
+    onLowConfidence = 'clarify',
+    defaultRoute
+  } = config;
+
+  const routeNames = Object.keys(routes) as TRoute[];
+  if (routeNames.length === 0) {
+    throw new Error(`Router ${name} needs at least one route`);
+  }
+  if (defaultRoute !== undefined && !routes[defaultRoute]) {
+    throw new Error(`Router ${name} has an unknown default route "${defaultRoute}"`);
+  }
+  if (onLowConfidence === 'default' && defaultRoute === undefined) {
+    throw new Error(`Router ${name} needs a defaultRoute when onLowConfidence is 'default'`);
+  }
+
+  const decisionSchema = z.object({
+    route: z.enum(routeNames as [TRoute, ...TRoute[]]).describe('The route that should handle the request'),
+    confidence: z.number().min(0).max(1).describe('Confidence that the route is right, from 0 to 1'),
+    reasoning: z.string().describe('One sentence on why this route was picked'),
+    clarifyingQuestion: z.string().optional().describe('A question for the user when the request is unclear'),
+    ...(schema && { context: schema.describe('Details from the request for the agent that handles it') })
+  });
+
+  const system = [
+    ROUTER_PROMPT,
+    ...routeNames.map(route => `- ${route}: ${routes[route].description}`),
+    config.systemPrompt
+  ].filter(Boolean).join('\n');
+
+  // Classifies the input; also returns the trace the routed agent should join and the classification usage
+  async function classify(input: string, context: ToolContext) {
+    const tracer = resolveTracer(
+      config.tracer ?? context.logging?.tracer,
+      config.langfuse ?? context.logging?.langfuse
+    );
+    let trace: Trace | undefined = context.logging?.trace;
+    if (!trace && tracer) {
+      trace = await safeTraceOperation(
+        async () => tracer.trace({ name: `${name}-trace`, userId: context.userId, input }),
+        'Failed to create trace'
+      );
+    }
+    const span = await safeTraceOperation(
+      async () => (context.parentSpan ?? trace)?.span({ name: `${name}-routing`, input: { input, routes: routeNames } }),
+      'Failed to create routing span'
+    );
+    const log = bindLogger(context.logging?.logger, { router: name, traceId: trace?.id });
+
+    let decision: RouterDecision<TRoute, TContext, TOutput>;
+    let usage: { model: string; usage: LanguageModelUsage } | undefined;
+    try {
+      const model = resolveModel(config.model, { logger: log });
+      const { object, usage: classificationUsage, response, providerMetadata } = await generateObject({
+        model,
+        schema: decisionSchema,
+        schemaName: 'RoutingDecision',
+        system,
+        prompt: input,
+        mode: 'tool'
+      });
+      usage = {
+        model: getBilledModelId(model.modelId, response.modelId, providerMetadata),
+        usage: classificationUsage
+      };
+      const { route: chosen, confidence, reasoning, clarifyingQuestion, context: extracted } = object as {
+        route: TRoute;
+        confidence: number;
+        reasoning: string;
+        clarifyingQuestion?: string;
+        context?: TContext;
+      };
+
+      if (confidence >= minConfidence) {
+        decision = { type: 'route', route: chosen, agent: routes[chosen].agent, confidence, reasoning, context: extracted, isDefault: false };
+      } else if (onLowConfidence === 'clarify') {
+        decision = {
+          type: 'clarify',
+          question: clarifyingQuestion || DEFAULT_CLARIFYING_QUESTION,
+          confidence,
+          reasoning,
+          suggestedRoute: chosen
+        };
+      } else {
+        const fallback = defaultRoute as TRoute;
+        decision = { type: 'route', route: fallback, agent: routes[fallback].agent, confidence, reasoning, context: extracted, isDefault: true };
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (defaultRoute === undefined) {
+        log.error('Routing failed', { router: name, error: message });
+        span?.end({ level: 'ERROR', statusMessage: message });
+        throw error;
+      }
+
+      // Without a classification the request still gets an answer from the default route
+      log.warn('Routing failed, using the default route', { router: name, error: message });
+      decision = {
+        type: 'route',
+        route: defaultRoute,
+        agent: routes[defaultRoute].agent,
+        confidence: 0,
+        reasoning: `Classification failed: ${message}`,
+        isDefault: true
+      };
+    }
+
+    const { agent: _agent, ...logged } = decision as RouterDecision<TRoute, TContext, TOutput> & { agent?: unknown };
+    log.info('Routing decision', { router: name, ...logged });
+    await safeTraceOperation(
+      async () => {
+        span?.end({
+          output: logged,
+          ...(decision.confidence < minConfidence && { level: 'WARNING', statusMessage: 'Low routing confidence' })
+        });
+        trace?.update({ metadata: { routingDecision: logged } });
+      },
+      'Failed to log routing decision'
+    );
+
+    return { decision, trace, tracer, usage };
+  }
+
+  return {
+    config,
+
+    async route(input: string, context: ToolContext = {}): Promise<RouterDecision<TRoute, TContext, TOutput>> {
+      return (await classify(input, context)).decision;
+    },
+
+    // Routes the input and runs the chosen agent in the router's trace, unless a clarifying question is needed.
+    // The classification counts towards the response's usage.
+    async run(input: string, options: RouterRunOptions<TOutput> = {}): Promise<RouterResult<TRoute, TContext, TOutput>> {
+      const context = options.context ?? {};
+      const { decision, trace, tracer, usage: routingUsage } = await classify(input, context);
+      if (decision.type === 'clarify') {
+        return { decision };
+      }
+
+      const prompt = decision.context === undefined
+        ? input
+        : `${input}\n\nDetails:\n${JSON.stringify(decision.context, null, 2)}`;
+      const response = await decision.agent.generate({
+        ...options,
+        prompt,
+        context: { ...context, logging: { ...context.logging, tracer, trace } }
+      });
+      if (!routingUsage) {
+        return { decision, response };
+      }
+
+      const usage = createUsageTracker(undefined, undefined);
+      usage.record('routing', routingUsage.model, routingUsage.usage);
+      for (const step of response.usage.steps) {
+        usage.record(step.source, step.model, step);
+      }
+      return { decision, response: { ...response, usage: usage.summary() } };
+    }
+  };
+}
@@ -1,15 +1,12 @@
 // We want to make the content creator
 
 //imports
-import { generateText } from 'ai';
-import { v4 as uuidv4 } from 'uuid';
-import { getModel } from '../../../model-providers/index';
 import { ContentResearchTool } from './content-researcher';
-import { getNodeAutoInstrumentations } from '@opentelemetry/auto-instrumentations-node';
-import { LangfuseExporter } from 'langfuse-vercel';
-import { NodeSDK } from '@opentelemetry/sdk-node';
+import { createAgent } from '../../base-agent';
 import { Langfuse } from 'langfuse';
-import { randomUUID } from 'node:crypto';
+import { createLangfuseTracer } from '../../../tracing/langfuse/langfuse-tracer';
+import type { Tracer } from '../../../tracing/types';
+import { bannedTerms, promptInjectionGuardrail } from '../../../guardrails/index';
 
 
 
@@ -104,125 +101,51 @@ If you need to do research, use the research tool.
 Remember final output should be the final LinkedIn post following the format provided above. 
 `;
 
+// Guardrails
+// The prompt forbids emojis unless the user asks for them; a post that has them is written again
+const noEmojis = bannedTerms({ name: 'no-emojis', terms: [/\p{Emoji_Presentation}/u], action: 'retry' });
+
 // Tools
 
 // Agent
 // ********* Main Function *********
-export async function ContentCreator(modelName: string, userPrompt: string) {
-
-    const sdk = new NodeSDK({
-        traceExporter: new LangfuseExporter(),
-        instrumentations: [getNodeAutoInstrumentations()],
-    });
-
-    sdk.start();
-
-    const langfuse = new Langfuse();
-    const parentTraceId = randomUUID();
-        
-  const model = getModel(modelName);
-  const traceId = uuidv4();
-
-  // Create a trace with more metadata
-  const trace = langfuse.trace({
-    name: `Content Creator - ${modelName}`,
-    userId: 'test-user', // Optional: Add if you want to track per user
-    id: traceId,
-    input: {
-      systemPrompt: contentCreatorPrompt,
-      userPrompt: userPrompt,
+// Traces go to Langfuse unless another tracer is passed, e.g. createJsonFileTracer for offline runs
+export async function ContentCreator(
+  modelName: string,
+  userPrompt: string,
+  tracer: Tracer = createLangfuseTracer(new Langfuse())
+) {
+
+  // The research agent runs as a tool, traced beneath this agent's tool span
+  const agent = createAgent({
+    name: 'content-creator',
+    model: modelName,
+    systemPrompt: contentCreatorPrompt,
+    tools: {
+      researchTool: ContentResearchTool(modelName),
+    },
+    maxSteps: 3,
+    guardrails: {
+      toolResults: [promptInjectionGuardrail()],   // Research results come from the web
+      output: /emoji|emoticon/i.test(userPrompt) ? [] : [noEmojis],
     },
+    tracer,
+    createNewTrace: true,
     metadata: {
       modelName,
       problemType: 'content-creator',
       environment: process.env.NODE_ENV,
     },
-    tags: ['content-creator', modelName],
-  });
-  const traceUrl = trace.getTraceUrl();
-
-  // Create a span for the generateText operation
-  const span = trace.span({
-    name: 'generate-text',
-    id: traceId,
-    input: {
-      systemPrompt: contentCreatorPrompt,
-      userPrompt: userPrompt,
-    },
   });
-  const tools = {
-    researchTool: ContentResearchTool(traceId, trace, modelName),
-  };
-
-  const {
-    response,
-    toolCalls,
-    text: answer,
-  } = await generateText({
-    model,
-    tools,
-    toolChoice: 'auto',
-    maxSteps: 3,
-    system: contentCreatorPrompt,
+
+  const response = await agent.generate({
     prompt: userPrompt,
-    experimental_telemetry: {
-      isEnabled: true,
-      functionId: `content-creator-${model}`,
-      metadata: {
-        traceId: traceId,
-        parentTraceId: parentTraceId,
-        langfuseTraceId: parentTraceId,
-        langfuseUpdateParent: false, // Do not update the parent trace with execution results
-        traceUrl: traceUrl,
-        spanId: span.id, // Add the span ID
-        modelId: model.modelId,
-      },
-    },
+    context: { userId: 'test-user' },
   });
 
-  trace.span({
-    name: 'Final Answer',
-    id: traceId,
-    input: {
-      Input: userPrompt,
-    },
-    output: {
-      answer,
-      toolCalls,
-    },
-    statusMessage: 'Success',
-  });
-  // // Log tool calls as separate spans
-  // for (const toolCall of toolCalls) {
-  //   trace.generation({
-  //     name: `tool-call-${toolCall.toolName}`,
-  //     model: modelName,
-  //     modelParameters: {
-  //       tool: toolCall.toolName,
-  //     },
-  //     input: toolCall.args,
-  //     output: toolCall.args,
-  //   });
-  // }
-
-  // End the span with the final result
-  console.log('Content Creator Output: ', answer);
-  span.end({
-    output: {
-      id: traceId,
-      answer,
-      toolCalls,
-    },
-  });
-  trace.update({
-    output: {
-      answer,
-      toolCalls,
-    },
-  });
+  console.log('Content Creator Output: ', response.text);
 
   // Make sure to flush before returning
-  await langfuse.flushAsync();
-  await sdk.shutdown();
+  await tracer.flush();
   return response;
 }
@@ -1,13 +1,13 @@
 // We want to make the content creator 
 
 //imports
-import { generateText, tool } from 'ai';
-import type { Langfuse, LangfuseTraceClient } from 'langfuse';
-import { v4 as uuidv4 } from 'uuid';
+import type { LangfuseTraceClient } from 'langfuse';
 import { z } from 'zod';
 import { initLangfuse } from '../../../tracing/langfuse/langfuse-register';
-import { getModel } from '../../../model-providers/index';
 import { PerplexityTool } from '../../../tools/perplexity/perplexity-tool';
+import { createAgent } from '../../base-agent';
+import { agentAsTool } from '../../agent-as-tool';
+import type { AgentToolSet } from '../../types';
 
 // Prompt 
 const contentResearchPrompt = `
@@ -48,134 +48,58 @@ Begin by constructing your search query based on the given topic.
 `;
 
 // Tools 
-
+export interface ContentResearchOptions {
+  // Replaces PerplexityTool, e.g. LocalResearchTool to research internal docs or offline fixtures
+  researchTool?: AgentToolSet[string];
+}
 
 // Agent 
+export const createContentResearchAgent = (modelName: string, options: ContentResearchOptions = {}) => createAgent({
+  name: 'content-research',
+  model: modelName,
+  systemPrompt: contentResearchPrompt,
+  tools: options.researchTool
+    ? { research: options.researchTool }
+    : { PerplexityTool: PerplexityTool() },
+  maxSteps: 2,
+  metadata: {
+    modelName,
+    problemType: 'content-research',
+    environment: process.env.NODE_ENV
+  }
+});
+
 // ********* Main Function *********
-export async function ContentResearch(modelName: string, userPrompt: string, parentTraceId?: string , traceObject?: LangfuseTraceClient) {
-    const model = getModel(modelName);
-    const traceId = parentTraceId || uuidv4();
-
-    let langfuse: Langfuse | undefined;
-    const trace = traceObject || (() => {
-        langfuse = initLangfuse();
-        return langfuse.trace({
-            name: `Content Creator - ${modelName}`,
-            userId: "test-user", // Optional: Add if you want to track per user
-            id: traceId,
-            input: {
-                systemPrompt: contentResearchPrompt,
-                userPrompt: userPrompt
-            },
-            metadata: {
-                modelName,
-                problemType: "content-creator", 
-                environment: process.env.NODE_ENV
-            },
-            tags: ["content-creator", modelName]
-        });
-    })();
-
-    const traceUrl = trace.getTraceUrl();
-
-    // Create a span for the generateText operation
-    const span = trace.span({
-        name: "research-agent",
-        id: traceId,
-        input: {
-            systemPrompt: contentResearchPrompt,
-            userPrompt: userPrompt
-        }
-    });
+export async function ContentResearch(
+  modelName: string,
+  userPrompt: string,
+  traceObject?: LangfuseTraceClient,
+  options?: ContentResearchOptions
+) {
     console.log("Research Input: ", userPrompt);
-   
 
-    const tools = {
-        PerplexityTool: PerplexityTool({ traceId, trace }),    }
-  
-    const { response, toolCalls, text: answer } = await generateText({
-      model,
-      tools,
-      toolChoice: 'required',
-      maxSteps: 1,
-      system: contentResearchPrompt,
+    // Log into the given trace, or create one for this research run
+    const langfuse = traceObject ? undefined : initLangfuse();
+    const response = await createContentResearchAgent(modelName, options).generate({
       prompt: userPrompt,
-      experimental_telemetry: {
-        isEnabled: true,
-        functionId: `content-creator-${model}`,
-        metadata: {
-          traceId: traceId,
-          parentTraceId: traceId,
-          traceUrl: traceUrl,
-          spanId: span.id, // Add the span ID
-          langfuseTraceId: trace.id,
-          modelId: model.modelId,
-        },
-      },
-    });
-  
-    trace.span({ 
-      name: "Final Answer",
-      id: traceId,
-      input: {
-        Input: userPrompt
-      },
-      output: {
-        answer,
-        toolCalls,
-      },
-      statusMessage: "Success",
-    });
-    // Log tool calls as separate spans
-    for (const toolCall of toolCalls) {
-      trace.generation({
-        name: `tool-call-${toolCall.toolName}`,
-        model: modelName,
-        modelParameters: {
-          tool: toolCall.toolName,
-        },
-        input: toolCall.args,
-        output: toolCall.args,
-      });
-    }
-    console.log("Research Output: ", answer);
-  
-    // End the span with the final result
-    span.end({
-      output: {
-        id: traceId,
-        answer,
-        toolCalls
-      }
-    });
-    trace.update({
-      output: {
-        answer,
-        toolCalls
+      context: {
+        userId: "test-user",
+        logging: { langfuse, trace: traceObject }
       }
     });
-  
-    // Make sure to flush before returning
-    if (!traceObject && langfuse) {
-      await langfuse.flushAsync();
-    }
-    
+
+    console.log("Research Output: ", response.text);
+    await langfuse?.flushAsync();
+
     return response;
   }
 
 
   // Make a tool of the research agent
- export const ContentResearchTool = (traceId: string, trace: LangfuseTraceClient , modelName: string) => tool({
+ export const ContentResearchTool = (modelName: string, options?: ContentResearchOptions) => agentAsTool(createContentResearchAgent(modelName, options), {
+    name: 'research-tool',
     description: 'Research agent',
-    parameters: z.object({
+    inputSchema: z.object({
       prompt: z.string().describe('The prompt to send to the research agent on what to research, give the objective of the research and the main points to be covered.'),
     }),
-    execute: async ({ prompt }) => {
-        trace.span({
-            name: "research-tool",
-            id: traceId,
-            input: { prompt },
-          });
-      return ContentResearch(modelName, prompt, traceId, trace);
-    },
-  });
\ No newline at end of file
+  });
@@ -0,0 +1,139 @@
+import { wrapLanguageModel } from 'ai';
+import type { LanguageModel, LanguageModelV1CallOptions, LanguageModelV1StreamPart, StepResult, ToolSet } from 'ai';
+import type { SpanEndOptions, SpanUsage, TraceSpan } from '../tracing/types';
+
+interface OpenStep {
+  span: TraceSpan;
+  generated: boolean;                  // A retried generation stays in the step it was retried for
+}
+
+export interface StepSpans {
+  model: LanguageModel;                // Opens a step span with a generation span for every model call
+  current: () => TraceSpan | undefined; // The step whose tools are running
+  finish: (step: StepResult<ToolSet>) => void;
+  endOpen: (end: SpanEndOptions) => void;
+}
+
+function toSpanUsage(usage: { promptTokens: number; completionTokens: number }): SpanUsage {
+  return { ...usage, totalTokens: usage.promptTokens + usage.completionTokens };
+}
+
+/**
+ * Traces each step of a run beneath the run span: a step span holds the generation
+ * span of its model call and the spans of the tools it called. The model is wrapped so
+ * generations start and end with the actual model call, streamed or not.
+ * `firstStep` numbers the steps of a resumed run after the ones it already completed.
+ */
+export function createStepSpans(model: LanguageModel, runSpan: TraceSpan | undefined, firstStep = 1): StepSpans {
+  const open: OpenStep[] = [];
+  let started = 0;
+
+  const startGeneration = (params: LanguageModelV1CallOptions) => {
+    let step = open[open.length - 1];
+    if (!step || step.generated) {
+      const span = runSpan?.span({ name: `step-${firstStep + started}` });
+      if (!span) return { step: undefined, generation: undefined };
+      step = { span, generated: false };
+      open.push(step);
+      started++;
+    }
+    const generation = step.span.span({
+      name: 'llm-generation',
+      type: 'generation',
+      model: model.modelId,
+      input: params.prompt,
+      metadata: { provider: model.provider, maxTokens: params.maxTokens, temperature: params.temperature }
+    });
+    return { step, generation };
+  };
+
+  const failGeneration = (generation: TraceSpan | undefined, error: unknown) => {
+    generation?.end({ level: 'ERROR', statusMessage: error instanceof Error ? error.message : String(error) });
+  };
+
+  const wrapped = runSpan
+    ? wrapLanguageModel({
+        model,
+        middleware: {
+          wrapGenerate: async ({ doGenerate, params }) => {
+            const { step, generation } = startGeneration(params);
+            try {
+              const result = await doGenerate();
+              if (step) step.generated = true;
+              generation?.end({
+                output: { text: result.text, toolCalls: result.toolCalls },
+                usage: toSpanUsage(result.usage),
+                metadata: { finishReason: result.finishReason, modelId: result.response?.modelId }
+              });
+              return result;
+            } catch (error) {
+              failGeneration(generation, error);
+              throw error;
+            }
+          },
+
+          // The generation ends with the stream; the model id and usage arrive with its last parts
+          wrapStream: async ({ doStream, params }) => {
+            const { step, generation } = startGeneration(params);
+            let text = '';
+            let modelId: string | undefined;
+            const toolCalls: unknown[] = [];
+            let finish: Extract<LanguageModelV1StreamPart, { type: 'finish' }> | undefined;
+            let failure: unknown;
+
+            try {
+              const { stream, ...rest } = await doStream();
+              if (step) step.generated = true;
+              return {
+                ...rest,
+                stream: stream.pipeThrough(new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+                  transform(part, controller) {
+                    if (part.type === 'text-delta') text += part.textDelta;
+                    if (part.type === 'tool-call') toolCalls.push(part);
+                    if (part.type === 'response-metadata') modelId = part.modelId ?? modelId;
+                    if (part.type === 'finish') finish = part;
+                    if (part.type === 'error') failure = part.error;
+                    controller.enqueue(part);
+                  },
+                  flush() {
+                    if (failure !== undefined) {
+                      failGeneration(generation, failure);
+                      return;
+                    }
+                    generation?.end({
+                      output: { text, toolCalls },
+                      usage: finish && toSpanUsage(finish.usage),
+                      metadata: { finishReason: finish?.finishReason, modelId }
+                    });
+                  }
+                }))
+              };
+            } catch (error) {
+              failGeneration(generation, error);
+              throw error;
+            }
+          }
+        }
+      })
+    : model;
+
+  return {
+    model: wrapped,
+    current: () => open[open.length - 1]?.span,
+
+    finish: (step) => {
+      open.shift()?.span.end({
+        output: { text: step.text, toolCalls: step.toolCalls, toolResults: step.toolResults },
+        usage: toSpanUsage(step.usage),
+        metadata: { finishReason: step.finishReason, stepType: step.stepType }
+      });
+    },
+
+    // Steps cut off by a suspension, abort or error
+    endOpen: (end) => {
+      for (const step of open.splice(0)) {
+        step.span.end(end);
+      }
+    }
+  };
+}
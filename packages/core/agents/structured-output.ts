@@ -0,0 +1,116 @@
+import { generateObject, NoObjectGeneratedError, TypeValidationError } from 'ai';
+import type { CoreMessage, LanguageModel, LanguageModelUsage } from 'ai';
+import type { z } from 'zod';
+import { getBilledModelId } from '../model-providers/model-configs';
+import type { TraceSpan } from '../tracing/types';
+import type { AgentEvent, Logger } from './types';
+
+export interface StructuredOutputOptions<TOutput> {
+  model: LanguageModel;
+  schema: z.ZodType<TOutput>;
+  system?: string;
+  messages: CoreMessage[];     // Full conversation, including the run's response messages
+  text: string;                // Final text of the run, used as-is when it already matches the schema
+  maxRetries: number;          // Repair attempts after the first failed validation
+  parentSpan?: TraceSpan;
+  emit: (event: AgentEvent) => void;
+  log: Logger;
+  onUsage?: (usage: LanguageModelUsage, modelId: string) => void;   // Reported for every generation attempt
+}
+
+const STRUCTURED_OUTPUT_INSTRUCTION =
+  'Return the final answer of this conversation as an object that matches the required schema. ' +
+  'Only use information from the conversation.';
+
+/**
+ * Parses text as JSON, ignoring a surrounding markdown code fence
+ */
+function parseJson(text: string): unknown {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  try {
+    return JSON.parse(fenced ? fenced[1] : text);
+  } catch {
+    return undefined;
+  }
+}
+
+function describeValidationError(error: unknown): string {
+  const cause = error instanceof Error ? error.cause : undefined;
+  if (TypeValidationError.isInstance(cause)) {
+    return cause.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Turns the result of an agent run into a validated object.
+ * The run's final text is used directly when it is valid JSON for the schema;
+ * otherwise the object is generated with `generateObject`, feeding validation
+ * errors back to the model until it matches or the retries are used up.
+ */
+export async function generateStructuredOutput<TOutput>({
+  model,
+  schema,
+  system,
+  messages,
+  text,
+  maxRetries,
+  parentSpan,
+  emit,
+  log,
+  onUsage
+}: StructuredOutputOptions<TOutput>): Promise<TOutput> {
+  const parsed = schema.safeParse(parseJson(text));
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  const span = parentSpan?.span({
+    name: 'structured-output',
+    input: { text, maxRetries }
+  });
+
+  let prompt: CoreMessage[] = [...messages, { role: 'user', content: STRUCTURED_OUTPUT_INSTRUCTION }];
+  let lastError = '';
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    try {
+      const { object, usage, response, providerMetadata } = await generateObject({
+        model,
+        schema,
+        system,
+        messages: prompt,
+        mode: 'tool'
+      });
+      onUsage?.(usage, getBilledModelId(model.modelId, response.modelId, providerMetadata));
+
+      span?.end({ output: { object, attempts: attempt } });
+      return object;
+    } catch (error) {
+      if (!NoObjectGeneratedError.isInstance(error)) {
+        span?.end({ level: 'ERROR', statusMessage: String(error) });
+        throw error;
+      }
+
+      if (error.usage) {
+        onUsage?.(error.usage, getBilledModelId(model.modelId, error.response?.modelId));
+      }
+      lastError = describeValidationError(error);
+      log.warn('Structured output failed validation', { attempt, error: lastError });
+      emit({ type: 'output-validation-error', content: { attempt, message: lastError } });
+
+      // Show the model what it produced and why it was rejected
+      prompt = [
+        ...prompt,
+        { role: 'assistant', content: error.text ?? '' },
+        {
+          role: 'user',
+          content: `That output does not match the required schema: ${lastError}\nReturn a corrected object.`
+        }
+      ];
+    }
+  }
+
+  span?.end({ level: 'ERROR', statusMessage: lastError });
+  throw new Error(`Structured output failed validation after ${maxRetries + 1} attempts: ${lastError}`);
+}
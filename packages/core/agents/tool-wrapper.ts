@@ -0,0 +1,185 @@
+import { tool as createCoreTool } from 'ai';
+import type { CoreTool, ToolExecutionOptions } from 'ai';
+import { guardToolResult } from '../guardrails/run-guardrails';
+import type { Guardrail } from '../guardrails/types';
+import { bindLogger } from '../logging/logger';
+import { executeWithPolicy } from '../tools/tool-policy';
+import type { ToolPolicy } from '../tools/tool-policy';
+import type { ToolCachePolicy, ToolResultCache } from '../tools/tool-cache';
+import type { Trace, TraceSpan } from '../tracing/types';
+import type {
+  AgentEvent,
+  AgentTool,
+  AgentToolSet,
+  Logger,
+  PendingToolApproval,
+  ToolApprovalPolicy,
+  ToolContext
+} from './types';
+
+/**
+ * Everything a wrapped tool needs from the run that is executing it
+ */
+export interface ToolRunContext {
+  context: ToolContext;                               // Passed through to framework tools
+  trace?: Trace;                                      // Trace for the current run
+  parentSpan?: () => TraceSpan | undefined;           // Tool spans go beneath this span, the current step's during a run
+  toolCache: ToolResultCache;                         // Reuses results of identical tool calls
+  approvedToolCalls: Set<string>;                     // Calls approved when a suspended run was resumed
+  requestApproval: (approval: PendingToolApproval) => void; // Holds a call for approval
+  toolResultGuardrails?: Guardrail[];                 // Checked before the model sees a result
+  emit: (event: AgentEvent) => void;                  // Forwards events to callbacks and the data stream
+  log: Logger;
+}
+
+export function isAgentTool(tool: AgentToolSet[string]): tool is AgentTool {
+  return 'name' in tool && typeof tool.execute === 'function';
+}
+
+/**
+ * Wraps a single tool with approval, caching, its execution policy, tracing, logging and events.
+ * When the tool has a policy, every attempt gets its own span and `tool-attempt` event.
+ * Calls that need approval are not executed; they return a placeholder until the run is resumed.
+ * Tools without an `execute` function are returned untouched so they can still end the run.
+ */
+export function wrapTool(
+  toolName: string,
+  tool: AgentToolSet[string],
+  runContext: ToolRunContext
+): CoreTool {
+  const { context, trace, parentSpan, toolCache, approvedToolCalls, requestApproval, toolResultGuardrails, emit } = runContext;
+
+  // Framework tools get the run context, with their own span as the parent for nested work
+  // and a logger bound to the call
+  const execute = isAgentTool(tool)
+    ? (args: unknown, options: ToolExecutionOptions, span?: TraceSpan) => tool.execute(args, {
+        ...context,
+        ...(span && { parentSpan: span }),
+        ...(context.logging?.logger && {
+          logging: { ...context.logging, logger: bindLogger(context.logging.logger, { tool: toolName, toolCallId: options.toolCallId }) }
+        })
+      })
+    : tool.execute;
+
+  if (!execute) {
+    return tool as CoreTool;
+  }
+
+  // createTool attaches the policy, cache and approval settings to the Vercel AI SDK tool it returns
+  const { policy, cache, requiresApproval } = tool as {
+    policy?: ToolPolicy;
+    cache?: ToolCachePolicy | false;
+    requiresApproval?: ToolApprovalPolicy;
+  };
+
+  const needsApproval = async (args: unknown, toolCallId: string) => {
+    if (!requiresApproval || approvedToolCalls.has(toolCallId)) return false;
+    return requiresApproval === true || await requiresApproval(args, context);
+  };
+
+  // A broken cache backend should slow tool calls down, not fail them
+  const readCache = async (args: unknown, log: Logger) => {
+    try {
+      return await toolCache.get(toolName, args, cache);
+    } catch (error) {
+      log.warn(`Tool cache read failed: ${toolName}`, { error: error instanceof Error ? error.message : String(error) });
+      return { hit: false as const };
+    }
+  };
+
+  const writeCache = async (args: unknown, result: unknown, log: Logger) => {
+    try {
+      await toolCache.set(toolName, args, result, cache);
+    } catch (error) {
+      log.warn(`Tool cache write failed: ${toolName}`, { error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  return createCoreTool({
+    description: tool.description,
+    parameters: tool.parameters,
+    execute: async (args: unknown, options: ToolExecutionOptions) => {
+      const log = bindLogger(runContext.log, { tool: toolName, toolCallId: options.toolCallId });
+
+      // The run is suspended after this step; the placeholder is replaced when it is resumed
+      if (await needsApproval(args, options.toolCallId)) {
+        log.info(`Tool call awaiting approval: ${toolName}`, { args });
+        requestApproval({ approvalId: options.toolCallId, toolName, args });
+        return { status: 'approval-required', approvalId: options.toolCallId };
+      }
+
+      // Results are cached as the tool returned them and checked on every use
+      const guard = (result: unknown, span?: TraceSpan) => toolResultGuardrails?.length
+        ? guardToolResult(result, toolResultGuardrails, { stage: 'tool-result', toolName, context, parentSpan: span, emit, log })
+        : result;
+
+      // Check cache for identical tool calls
+      const cached = await readCache(args, log);
+      if (cached.hit) {
+        log.debug(`Using cached result for ${toolName}`, { scope: cached.scope });
+        emit({ type: 'tool-cache-hit', content: { name: toolName, scope: cached.scope } });
+        return guard(cached.value, parentSpan?.());
+      }
+
+      log.debug(`Tool call start: ${toolName}`, { args });
+      emit({ type: 'tool-start', content: { name: toolName, args } });
+
+      const span = (parentSpan?.() ?? trace)?.span({
+        name: `tool-execution-${toolName}`,
+        input: {
+          tool: toolName,
+          arguments: args,
+          toolCallId: options.toolCallId
+        }
+      });
+
+      try {
+        let attemptSpan: TraceSpan | undefined;
+        const result = await executeWithPolicy(toolName, policy, () => execute(args, options, attemptSpan ?? span), policy && {
+          onAttemptStart: (attempt) => {
+            attemptSpan = span?.span({ name: `${toolName}-attempt-${attempt}`, input: { attempt } });
+          },
+          onAttemptEnd: (outcome) => {
+            if (outcome.status !== 'success') {
+              log.warn(`Tool attempt failed: ${toolName}`, { ...outcome });
+            }
+            emit({ type: 'tool-attempt', content: { name: toolName, ...outcome } });
+            attemptSpan?.end({
+              output: outcome,
+              ...(outcome.status !== 'success' && { level: 'WARNING', statusMessage: outcome.message })
+            });
+          },
+          onCircuitOpen: (retryAfterMs) => {
+            emit({ type: 'tool-circuit-open', content: { name: toolName, retryAfterMs } });
+          }
+        });
+        await writeCache(args, result, log);
+
+        log.debug(`Tool call end: ${toolName}`, { result });
+        emit({ type: 'tool-end', content: { name: toolName, result } });
+        const guarded = await guard(result, span);
+        span?.end({ output: { result, success: true } });
+
+        return guarded;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        log.error(`Tool call error: ${toolName}`, { error: message });
+        emit({ type: 'tool-error', content: { name: toolName, message } });
+        span?.end({
+          output: { error: message, success: false },
+          statusMessage: message,
+          level: 'ERROR'
+        });
+
+        throw error;
+      }
+    }
+  });
+}
+
+export function wrapTools(tools: AgentToolSet, runContext: ToolRunContext): Record<string, CoreTool> {
+  return Object.fromEntries(
+    Object.entries(tools).map(([name, tool]) => [name, wrapTool(name, tool, runContext)])
+  );
+}
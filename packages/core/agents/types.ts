@@ -1,6 +1,12 @@
-import { type AIStreamCallbacksAndOptions } from 'ai';
-import type {  LangfuseTraceClient,  Langfuse } from 'langfuse';
+import type { CoreMessage, CoreTool, DataStreamWriter, LanguageModel, StepResult, ToolSet } from 'ai';
+import type { Langfuse } from 'langfuse';
 import type { z } from 'zod';
+import type { GuardrailAction, GuardrailsConfig, GuardrailStage } from '../guardrails/types';
+import type { MemoryStore } from '../memory/types';
+import type { RunStore } from '../runs/types';
+import type { ToolAttemptOutcome, ToolPolicy } from '../tools/tool-policy';
+import type { CacheBackend, ToolCacheOptions, ToolCachePolicy, ToolCacheScope } from '../tools/tool-cache';
+import type { Trace, Tracer, TraceSpan } from '../tracing/types';
 
 // Core Types for Agent Tools
 export interface AgentTool<TParams = unknown, TResult = unknown> {
@@ -8,20 +14,48 @@ export interface AgentTool<TParams = unknown, TResult = unknown> {
   description: string;
   parameters: z.ZodType<TParams>;
   execute: (args: TParams, context: ToolContext) => Promise<TResult>;
+  policy?: ToolPolicy;                // Timeout, retries and circuit breaker for this tool
+  cache?: ToolCachePolicy | false;    // Result caching; false for tools with side effects
+  requiresApproval?: ToolApprovalPolicy<TParams>; // Suspend the run until a call is approved
 }
 
+// true for every call, or decide per call from its arguments
+export type ToolApprovalPolicy<TParams = unknown> =
+  | boolean
+  | ((args: TParams, context: ToolContext) => boolean | Promise<boolean>);
+
+export interface PendingToolApproval {
+  approvalId: string;                 // The id of the tool call
+  toolName: string;
+  args: unknown;
+}
+
+export type ToolApprovalDecision =
+  | { approvalId: string; action: 'approve' }
+  | { approvalId: string; action: 'edit'; args: unknown }      // Run the tool with these arguments instead
+  | { approvalId: string; action: 'reject'; reason?: string }; // The model is told the call was rejected
+
+// Agents accept both framework tools and plain Vercel AI SDK tools (e.g. from `createTool`)
+export type AgentToolSet = Record<string, AgentTool<any, any> | CoreTool>;
+
 // Runtime Context Types
 export interface ToolContext {
   userId?: string;
-  dataStream?: any;
+  runId?: string;                     // Run calling the tool
+  traceId?: string;
+  agentName?: string;                 // Name of the agent calling the tool
+  dataStream?: DataStreamWriter;
   logging?: LoggingContext;
   metadata?: Record<string, unknown>;
+  parentSpan?: TraceSpan;             // Span of the current tool call; nested runs are traced beneath it
+  agentDepth?: number;                // How many agents deep this run is nested (0 for the top-level agent)
 }
 
 export interface LoggingContext {
   logger?: Logger;
-  langfuse?: Langfuse;
-  trace?: LangfuseTraceClient;
+  tracer?: Tracer;
+  langfuse?: Langfuse;                // Used as the tracer when no tracer is given
+  trace?: Trace;
 }
 
 export interface Logger {
@@ -29,27 +63,88 @@ export interface Logger {
   info: (message: string, meta?: Record<string, unknown>) => void;
   warn: (message: string, meta?: Record<string, unknown>) => void;
   error: (message: string, meta?: Record<string, unknown>) => void;
+  child?: (bindings: Record<string, unknown>) => Logger; // Runtimes bind run, trace and tool ids with it
 }
 
-// Agent Configuration
-export interface AgentConfig {
-  name: string;
-  model: any; // Your LLM model reference
-  systemPrompt: string;
-  tools: Record<string, AgentTool>;
-  
-  // Optional configurations
+// Per-call settings; anything set here overrides the agent configuration
+export interface AgentOptions<TOutput = unknown> {
+  model?: LanguageModel | string | string[];  // Model instance, "provider:model" string or fallback chain for getModel
+  systemPrompt?: string;
+  tools?: AgentToolSet;
   maxSteps?: number;
   temperature?: number;
   maxTokens?: number;
   requireStructuredOutput?: boolean;
+  outputSchema?: z.ZodType<TOutput>;  // Validate the final answer into a typed `structuredOutput`
+  maxOutputRetries?: number;          // Repair attempts when the output fails validation (default 2)
+  budget?: AgentBudget;               // Token and cost limits; the run is aborted when one is exceeded
+}
+
+// Agent Configuration
+export interface AgentConfig<TOutput = unknown> extends AgentOptions<TOutput> {
+  name: string;
+  model: LanguageModel | string | string[];
+
+  // Tracing configuration
+  tracer?: Tracer;                    // Backend that records traces (Langfuse, OpenTelemetry, JSON files)
+  langfuse?: Langfuse;                // Shorthand for tracer: createLangfuseTracer(langfuse)
+  trace?: Trace;                      // Existing trace to log into
+  traceId?: string;                   // Trace id to use instead of a generated one
+  parentTraceId?: string;             // For linking traces of nested agents
+  createNewTrace?: boolean;           // Create a new trace for each run
+  isServerless?: boolean;             // Flush traces before the run resolves
+  metadata?: Record<string, unknown>; // Additional context attached to traces
+
+  // Conversation memory: history is loaded before and appended after each run
+  memory?: MemoryStore;
+
+  // Keeps the history within the model's context window; set to false to disable
+  contextManagement?: ContextManagementOptions | false;
+
+  // Tool result caching; false disables it for every tool
+  toolCache?: ToolCacheOptions | false;
+
+  // Keeps suspended and checkpointed runs; defaults to an in-process store
+  runStore?: RunStore;
+
+  // Save the run to the runStore after every step, so resumeRun can continue it after a crash
+  checkpoints?: boolean;
+
+  // Checks on new user messages, tool results and the final answer that can block, rewrite or retry
+  guardrails?: GuardrailsConfig;
+}
+
+export interface ContextManagementOptions {
+  strategy?: 'trim' | 'summarize';    // Drop older turns, or replace them with a summary (default 'trim')
+  summarizer?: LanguageModel | string | string[]; // Model that writes summaries; defaults to the agent's model
+  contextWindow?: number;             // Overrides the window looked up in modelConfigs
+  reservedTokens?: number;            // Kept free for the completion; defaults to maxTokens or 4096
+  keepRecentMessages?: number;        // Latest messages that are never removed (default 6)
+  summaryCache?: CacheBackend;        // Summaries by the turns they cover; defaults to a process-wide in-memory backend
+  estimateTokens?: (message: CoreMessage) => number;
 }
 
 // Runtime Options
-export interface AgentRuntimeOptions {
-  messages: AgentMessage[];
-  streamCallbacks?: Partial<AIStreamCallbacksAndOptions>;
+export interface AgentRuntimeOptions<TOutput = unknown> extends AgentOptions<TOutput> {
+  messages?: AgentMessage[];          // Conversation history
+  prompt?: string;                    // Appended to the history as the current user message
+  conversationId?: string;            // Memory key; defaults to context.userId
+  runId?: string;                     // Id of this run in the runStore; set it to resume the run after a crash
   context?: ToolContext;
+  onEvent?: (event: AgentEvent) => void;
+  streamCallbacks?: AgentStreamCallbacks<TOutput>;
+  abortSignal?: AbortSignal;
+}
+
+// Options for resuming a suspended or checkpointed run; history and prompt come from the stored run
+export interface AgentResumeOptions<TOutput = unknown>
+  extends Omit<AgentRuntimeOptions<TOutput>, 'messages' | 'prompt' | 'conversationId' | 'runId'> {
+  approvals?: ToolApprovalDecision[];  // One decision for each pending approval
+}
+
+export interface AgentStreamCallbacks<TOutput = unknown> {
+  onStepFinish?: (step: StepResult<ToolSet>) => void | Promise<void>;
+  onFinish?: (response: AgentResponse<TOutput>) => void | Promise<void>;
 }
 
 export interface AgentMessage {
@@ -59,16 +154,113 @@ export interface AgentMessage {
   name?: string;
 }
 
+// Response Types
+export interface AgentToolCall {
+  toolName: string;
+  args: unknown;
+}
+
+export interface AgentResponseContent {
+  type: 'text' | 'tool_call';
+  text?: string;
+  toolName?: string;
+  args?: unknown;
+  toolResults?: unknown;
+}
+
+export interface AgentResponse<TOutput = unknown> {
+  text: string;
+  finishReason: string;
+  runId: string;                      // Pass to resumeRun
+  traceId: string;
+  toolCalls: AgentToolCall[];
+  structuredOutput?: TOutput;
+  usage: RunUsage;
+  status: 'complete' | 'suspended';   // Suspended runs wait for the decisions on pendingApprovals
+  pendingApprovals?: PendingToolApproval[];
+  messages: {
+    role: 'assistant';
+    content: AgentResponseContent[];
+  }[];
+}
+
+// Usage and Budget Types
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface StepUsage extends TokenUsage {
+  step: number;
+  source: 'step' | 'structured-output' | 'routing'; // LLM step of the run, structured output generation, or a router's classification
+  model: string;                           // Model that answered (the fallback model for chains)
+  cost?: number;                           // USD; unset when the model has no pricing
+}
+
+export interface RunUsage extends TokenUsage {
+  cost: number;                            // USD; models without pricing count as zero
+  steps: StepUsage[];
+  byModel: Record<string, TokenUsage & { cost: number }>;
+}
+
+export interface BudgetLimits {
+  maxTokens?: number;
+  maxCost?: number;                        // USD
+}
+
+export interface AgentBudget {
+  perRun?: BudgetLimits;
+  perUser?: BudgetLimits;                  // Totals across runs, keyed by context.userId
+  usageStore?: UsageStore;                 // Keeps per-user totals; defaults to an in-process store
+}
+
+export interface UsageStore {
+  get: (userId: string) => Promise<{ totalTokens: number; cost: number }>;
+  add: (userId: string, usage: { totalTokens: number; cost: number }) => Promise<void>;
+}
+
 // Event Types for Streaming
-export type AgentEvent = 
+export type AgentEvent =
+  | { type: 'agent-start'; content: { name: string; traceId: string } }
   | { type: 'tool-start'; content: { name: string; args: unknown } }
   | { type: 'tool-end'; content: { name: string; result: unknown } }
-  | { type: 'step-complete'; content: { text: string; tokens: number } }
-  | { type: 'agent-complete'; content: { reason: string; output?: unknown } }
+  | { type: 'tool-cache-hit'; content: { name: string; scope: ToolCacheScope } }
+  | { type: 'tool-error'; content: { name: string; message: string } }
+  | { type: 'approval-required'; content: { runId: string } & PendingToolApproval }
+  | { type: 'approval-resolved'; content: { approvalId: string; toolName: string; action: ToolApprovalDecision['action'] } }
+  | { type: 'tool-attempt'; content: { name: string } & ToolAttemptOutcome }
+  | { type: 'tool-circuit-open'; content: { name: string; retryAfterMs: number } }
+  | { type: 'step-complete'; content: { text: string; tokens: number; usage: StepUsage } }
+  | { type: 'budget-exceeded'; content: { scope: 'run' | 'user'; limit: 'tokens' | 'cost'; used: number; max: number } }
+  | { type: 'output-validation-error'; content: { attempt: number; message: string } }
+  | { type: 'guardrail'; content: { guardrail: string; stage: GuardrailStage; action: GuardrailAction; reason?: string; toolName?: string } }
+  | { type: 'context-compacted'; content: { strategy: 'trim' | 'summarize'; removedMessages: number; tokensBefore: number; tokensAfter: number } }
+  | { type: 'agent-complete'; content: { reason: string; output?: unknown; usage: RunUsage } }
+  | { type: 'agent-suspended'; content: { runId: string; pendingApprovals: PendingToolApproval[]; usage: RunUsage } }
   | { type: 'error'; content: { message: string; error?: unknown } };
 
 // Agent Interface
-export interface Agent {
-  config: AgentConfig;
-  run: (options: AgentRuntimeOptions) => Promise<void>;
-} 
\ No newline at end of file
+export interface Agent<TOutput = unknown> {
+  config: AgentConfig<TOutput>;
+  generate: (options: AgentRuntimeOptions<TOutput>) => Promise<AgentResponse<TOutput>>;
+  stream: (options: AgentRuntimeOptions<TOutput>) => Response;
+  resumeRun: (runId: string, options?: AgentResumeOptions<TOutput>) => Promise<AgentResponse<TOutput>>;
+}
+
+// Debug Options
+export interface DebugOptions {
+  enabled: boolean;
+  level?: 'debug' | 'info' | 'warn' | 'error';
+  logToolCalls?: boolean;
+  logTraces?: boolean;
+  logResponses?: boolean;
+}
+
+export const defaultDebugOptions: DebugOptions = {
+  enabled: false,
+  level: 'info',
+  logToolCalls: false,
+  logTraces: false,
+  logResponses: false
+};
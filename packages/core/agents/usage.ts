@@ -0,0 +1,146 @@
+import type { LanguageModelUsage } from 'ai';
+import { calculateCost } from '../model-providers/model-configs';
+import type { AgentBudget, AgentEvent, BudgetLimits, RunUsage, StepUsage, UsageStore } from './types';
+
+type UsageTotals = { totalTokens: number; cost: number };
+
+/**
+ * Keeps per-user usage totals in memory
+ */
+export function createInMemoryUsageStore(): UsageStore {
+  const totals = new Map<string, UsageTotals>();
+
+  return {
+    async get(userId) {
+      return totals.get(userId) ?? { totalTokens: 0, cost: 0 };
+    },
+
+    async add(userId, usage) {
+      const current = totals.get(userId) ?? { totalTokens: 0, cost: 0 };
+      totals.set(userId, {
+        totalTokens: current.totalTokens + usage.totalTokens,
+        cost: current.cost + usage.cost
+      });
+    }
+  };
+}
+
+// Shared default so per-user totals carry over between runs and agents
+const defaultUsageStore = createInMemoryUsageStore();
+
+export function isBudgetExceededError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'BudgetExceededError';
+}
+
+// Providers that do not report usage return NaN
+const count = (tokens: number) => (Number.isFinite(tokens) ? tokens : 0);
+
+type BudgetExceeded = Extract<AgentEvent, { type: 'budget-exceeded' }>['content'];
+
+function findExceededLimit(scope: 'run' | 'user', limits: BudgetLimits | undefined, used: UsageTotals): BudgetExceeded | undefined {
+  if (limits?.maxTokens !== undefined && used.totalTokens > limits.maxTokens) {
+    return { scope, limit: 'tokens', used: used.totalTokens, max: limits.maxTokens };
+  }
+  if (limits?.maxCost !== undefined && used.cost > limits.maxCost) {
+    return { scope, limit: 'cost', used: used.cost, max: limits.maxCost };
+  }
+  return undefined;
+}
+
+function createBudgetError({ scope, limit, used, max }: BudgetExceeded): Error {
+  const error = new Error(`${scope === 'run' ? 'Run' : 'User'} ${limit} budget exceeded: used ${used}, limit ${max}`);
+  error.name = 'BudgetExceededError';
+  return error;
+}
+
+/**
+ * Aggregates the token usage and cost of one run and checks it against the run and user budgets.
+ * A resumed run passes the steps it made before, and how many of them already count for the user.
+ */
+export function createUsageTracker(
+  budget: AgentBudget | undefined,
+  userId: string | undefined,
+  previousSteps: StepUsage[] = [],
+  persistedSteps = previousSteps.length
+) {
+  const steps: StepUsage[] = [...previousSteps];
+  const store = budget?.usageStore ?? defaultUsageStore;
+  const tracksUser = !!(budget?.perUser && userId);
+  let userSpent: UsageTotals = { totalTokens: 0, cost: 0 };
+  let persisted = persistedSteps;
+
+  // Usage that is not yet part of the user's totals
+  function unpersisted(): UsageTotals {
+    return steps.slice(persisted).reduce(
+      (totals, step) => ({ totalTokens: totals.totalTokens + step.totalTokens, cost: totals.cost + (step.cost ?? 0) }),
+      { totalTokens: 0, cost: 0 }
+    );
+  }
+
+  function summary(): RunUsage {
+    const usage: RunUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, steps, byModel: {} };
+    for (const step of steps) {
+      const model = usage.byModel[step.model] ??= { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+      for (const target of [usage, model]) {
+        target.promptTokens += step.promptTokens;
+        target.completionTokens += step.completionTokens;
+        target.totalTokens += step.totalTokens;
+        target.cost += step.cost ?? 0;
+      }
+    }
+    return usage;
+  }
+
+  return {
+    // Fails the run up front when the user has already used up their budget
+    async start() {
+      if (!tracksUser) return;
+      userSpent = await store.get(userId as string);
+      const exceeded = findExceededLimit('user', budget?.perUser, userSpent);
+      if (exceeded) throw createBudgetError(exceeded);
+    },
+
+    record(source: StepUsage['source'], model: string, usage: Pick<LanguageModelUsage, 'promptTokens' | 'completionTokens'>): StepUsage {
+      const promptTokens = count(usage.promptTokens);
+      const completionTokens = count(usage.completionTokens);
+      const step: StepUsage = {
+        step: steps.length + 1,
+        source,
+        model,
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        cost: calculateCost(model, { promptTokens, completionTokens })
+      };
+      steps.push(step);
+      return step;
+    },
+
+    // The first exceeded limit, checking the run budget before the user budget
+    checkBudget(): { exceeded: BudgetExceeded; error: Error } | undefined {
+      const { totalTokens, cost } = summary();
+      const fresh = unpersisted();
+      const exceeded =
+        findExceededLimit('run', budget?.perRun, { totalTokens, cost }) ??
+        (tracksUser
+          ? findExceededLimit('user', budget?.perUser, {
+              totalTokens: userSpent.totalTokens + fresh.totalTokens,
+              cost: userSpent.cost + fresh.cost
+            })
+          : undefined);
+      return exceeded && { exceeded, error: createBudgetError(exceeded) };
+    },
+
+    summary,
+
+    // Adds the steps not yet counted to the user's totals, so a run that both completes and fails counts once
+    async persist() {
+      if (!tracksUser || persisted === steps.length) return;
+      const totals = unpersisted();
+      persisted = steps.length;
+      await store.add(userId as string, totals);
+    },
+
+    persistedSteps: () => persisted
+  };
+}
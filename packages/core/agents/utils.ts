@@ -1,6 +1,34 @@
+import { createLogger } from '../logging/logger';
+import { consoleTransport } from '../logging/transports';
+import type { Tracer } from '../tracing/types';
 import type { AgentResponse, DebugOptions } from './types';
 import { defaultDebugOptions } from './types';
 
+/**
+ * Safely executes tracing operations with error handling
+ * @param operation - The tracing operation to execute
+ * @param errorMessage - Message to log if operation fails
+ * @param defaultValue - Optional fallback value
+ */
+export async function safeTraceOperation<T>(
+  operation: () => Promise<T>,
+  errorMessage: string,
+  defaultValue?: T
+): Promise<T | undefined> {
+  try {
+    return await operation();
+  } catch (error) {
+    console.warn(errorMessage, error instanceof Error ? error.message : String(error));
+    return defaultValue;
+  }
+}
+
+// Ensure all traces are flushed, especially important in serverless environments
+export async function ensureTraceFlushed(tracer?: Tracer) {
+  if (!tracer) return;
+  await safeTraceOperation(() => tracer.flush(), 'Failed to flush traces');
+}
+
 // Response formatting utilities
 export function formatResponse(response: unknown): string {
   if (!response || typeof response !== 'object') return 'No response received';
@@ -48,8 +76,10 @@ export function formatStructuredResponse(response: unknown): string {
   return String(response);
 }
 
-// Debug logging utilities
+// Debug logging utilities, kept for scripts that use setDebugOptions; new code should pass a
+// logger from createLogger in context.logging instead
 let debugOptions: DebugOptions = { ...defaultDebugOptions };
+const debugLogger = createLogger({ level: 'debug', transports: [consoleTransport()] });
 
 export function setDebugOptions(options: Partial<DebugOptions>) {
   debugOptions = { ...debugOptions, ...options };
@@ -59,19 +89,12 @@ export function debug(message: string, type: keyof DebugOptions = 'enabled') {
   if (!debugOptions.enabled) return;
   if (type !== 'enabled' && !debugOptions[type]) return;
 
-  const timestamp = new Date().toISOString();
-  const prefix = `[${timestamp}] [${debugOptions.level?.toUpperCase()}]`;
-  
-  console.log(`${prefix} ${message}`);
+  debugLogger[debugOptions.level ?? 'info'](message);
 }
 
 export function debugObject(label: string, obj: unknown, type: keyof DebugOptions = 'enabled') {
   if (!debugOptions.enabled) return;
   if (type !== 'enabled' && !debugOptions[type]) return;
 
-  const timestamp = new Date().toISOString();
-  const prefix = `[${timestamp}] [${debugOptions.level?.toUpperCase()}]`;
-  
-  console.log(`${prefix} ${label}:`);
-  console.dir(obj, { depth: null, colors: true });
-}
\ No newline at end of file
+  debugLogger[debugOptions.level ?? 'info'](label, { value: obj });
+}
@@ -0,0 +1,41 @@
+import * as fs from 'node:fs';
+import type { EvalCase } from './types';
+
+/**
+ * Parses a JSONL dataset: one case per line, blank lines and `//` comments are skipped.
+ * Cases without an id are named after their line number.
+ */
+export function parseDataset(content: string, source = 'dataset'): EvalCase[] {
+  const cases: EvalCase[] = [];
+
+  content.split('\n').forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('//')) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`${source} line ${index + 1} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const evalCase = parsed as EvalCase;
+    if (!evalCase || typeof evalCase !== 'object' || (evalCase.input === undefined && evalCase.messages === undefined)) {
+      throw new Error(`${source} line ${index + 1} needs an input or messages`);
+    }
+    cases.push({ ...evalCase, id: evalCase.id ?? `line-${index + 1}` });
+  });
+
+  const ids = new Set<string>();
+  for (const { id } of cases) {
+    if (ids.has(id as string)) {
+      throw new Error(`${source} has more than one case with id "${id}"`);
+    }
+    ids.add(id as string);
+  }
+  return cases;
+}
+
+export async function loadDataset(filePath: string): Promise<EvalCase[]> {
+  return parseDataset(await fs.promises.readFile(filePath, 'utf8'), filePath);
+}
@@ -0,0 +1,17 @@
+export type {
+  EvalCase,
+  EvalCaseResult,
+  EvalExpectation,
+  EvalOptions,
+  EvalRegression,
+  EvalReport,
+  ExpectedToolCall,
+  ScoreResult,
+  Scorer,
+  ScorerInput,
+  ScorerSummary
+} from './types';
+export { loadDataset, parseDataset } from './dataset';
+export { exactMatch, jsonSchema, llmJudge, regexMatch, toolCalls } from './scorers';
+export { runEval } from './run-eval';
+export { compareEvalReports, formatEvalReport } from './report';
@@ -0,0 +1,59 @@
+import type { EvalRegression, EvalReport } from './types';
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Renders a report for the console: the summary, then every case that did not pass
+ */
+export function formatEvalReport(report: EvalReport): string {
+  const { summary } = report;
+  const lines = [
+    `Eval ${report.name}: ${summary.passed}/${summary.total} passed (${percent(summary.passRate)}), ` +
+      `${summary.failed} failed, ${summary.errored} errored in ${(report.durationMs / 1000).toFixed(1)}s`,
+    `Tokens: ${summary.totalTokens}, cost: $${summary.cost.toFixed(4)}`,
+    '',
+    'Scorers:',
+    ...Object.entries(summary.scorers).map(([scorer, { averageScore, passRate }]) =>
+      `  ${scorer}: average ${averageScore.toFixed(2)}, passed ${percent(passRate)}`
+    )
+  ];
+
+  const notPassed = report.cases.filter(result => !result.passed);
+  if (notPassed.length > 0) {
+    lines.push('', 'Cases that did not pass:');
+    for (const result of notPassed) {
+      lines.push(`  ${result.id}${result.traceId ? ` (trace ${result.traceId})` : ''}`);
+      if (result.error) lines.push(`    error: ${result.error}`);
+      for (const [scorer, score] of Object.entries(result.scores)) {
+        if (!score.passed) lines.push(`    ${scorer}: ${score.score.toFixed(2)}${score.reason ? ` - ${score.reason}` : ''}`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Lists the cases that passed in the baseline but not in the current report,
+ * per scorer, so prompt changes can be checked before they ship
+ */
+export function compareEvalReports(baseline: EvalReport, current: EvalReport): EvalRegression[] {
+  const baselineCases = new Map(baseline.cases.map(result => [result.id, result]));
+  const regressions: EvalRegression[] = [];
+
+  for (const result of current.cases) {
+    const before = baselineCases.get(result.id);
+    if (!before?.passed) continue;
+
+    if (result.error && !before.error) {
+      regressions.push({ id: result.id, baseline: 1, current: 0 });
+      continue;
+    }
+    for (const [scorer, score] of Object.entries(result.scores)) {
+      const previous = before.scores[scorer];
+      if (previous?.passed && !score.passed) {
+        regressions.push({ id: result.id, scorer, baseline: previous.score, current: score.score });
+      }
+    }
+  }
+  return regressions;
+}
@@ -0,0 +1,129 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { EvalCase, EvalCaseResult, EvalOptions, EvalReport, ScoreResult, ScorerSummary } from './types';
+
+const DEFAULT_CONCURRENCY = 4;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+function summarize(name: string, startedAt: number, cases: EvalCaseResult[]): EvalReport {
+  const scorerNames = [...new Set(cases.flatMap(result => Object.keys(result.scores)))];
+  const scorers = Object.fromEntries(scorerNames.map((scorer): [string, ScorerSummary] => {
+    const scores = cases.flatMap(result => (result.scores[scorer] ? [result.scores[scorer]] : []));
+    return [scorer, {
+      averageScore: scores.reduce((total, score) => total + score.score, 0) / scores.length,
+      passRate: scores.filter(score => score.passed).length / scores.length
+    }];
+  }));
+  const passed = cases.filter(result => result.passed).length;
+  const errored = cases.filter(result => result.error).length;
+
+  return {
+    name,
+    startedAt: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - startedAt,
+    cases,
+    summary: {
+      total: cases.length,
+      passed,
+      failed: cases.length - passed - errored,
+      errored,
+      passRate: cases.length > 0 ? passed / cases.length : 0,
+      scorers,
+      totalTokens: cases.reduce((total, result) => total + result.totalTokens, 0),
+      cost: cases.reduce((total, result) => total + result.cost, 0)
+    }
+  };
+}
+
+/**
+ * Runs the agent over every case of a dataset and scores the answers.
+ * A failing run or scorer fails its case, not the eval. Each run gets its own trace
+ * on `tracer` (or the agent's tracer), linked from the case result by `traceId`.
+ *
+ * Example usage:
+ * ```typescript
+ * const report = await runEval({
+ *   name: 'weather-agent',
+ *   agent: weatherAgent,
+ *   dataset: await loadDataset('./evals/weather.jsonl'),
+ *   scorers: [toolCalls(), regexMatch(), llmJudge({ model: 'openai:gpt-4o-mini' })],
+ *   tracer: createJsonFileTracer({ directory: './traces' })
+ * });
+ * console.log(formatEvalReport(report));
+ * ```
+ */
+export async function runEval(options: EvalOptions): Promise<EvalReport> {
+  const { name, agent, dataset, scorers, tracer, concurrency = DEFAULT_CONCURRENCY } = options;
+  const startedAt = Date.now();
+  const results: EvalCaseResult[] = new Array(dataset.length);
+  // Memory is keyed per eval run too, so a case never sees its own history from an earlier run
+  const evalRunId = uuidv4();
+
+  const runCase = async (evalCase: EvalCase, index: number): Promise<EvalCaseResult> => {
+    const id = evalCase.id ?? `case-${index + 1}`;
+    const caseStartedAt = Date.now();
+    const base = { id, input: evalCase.input, toolCalls: [], scores: {}, totalTokens: 0, cost: 0 };
+
+    let response;
+    try {
+      response = await agent.generate({
+        messages: evalCase.messages,
+        prompt: evalCase.input,
+        // Agents with memory must not see the history of other cases or runs
+        conversationId: `eval-${name}-${evalRunId}-${id}`,
+        context: {
+          ...options.context,
+          logging: { ...options.context?.logging, ...(tracer && { tracer }) }
+        }
+      });
+      if (response.status === 'suspended') {
+        throw new Error('Run suspended for tool approval; eval agents cannot use tools that need approval');
+      }
+    } catch (error) {
+      return { ...base, passed: false, error: errorMessage(error), durationMs: Date.now() - caseStartedAt };
+    }
+
+    const output = response.structuredOutput !== undefined
+      ? JSON.stringify(response.structuredOutput)
+      : response.text;
+
+    const scores: Record<string, ScoreResult> = {};
+    const scorerErrors: string[] = [];
+    for (const scorer of scorers) {
+      try {
+        scores[scorer.name] = await scorer.score({ evalCase, output, response });
+      } catch (error) {
+        scorerErrors.push(`${scorer.name}: ${errorMessage(error)}`);
+      }
+    }
+
+    return {
+      ...base,
+      output,
+      toolCalls: response.toolCalls,
+      scores,
+      passed: scorerErrors.length === 0 && Object.values(scores).every(score => score.passed),
+      error: scorerErrors.length > 0 ? `Scorer failed: ${scorerErrors.join('; ')}` : undefined,
+      traceId: response.traceId,
+      durationMs: Date.now() - caseStartedAt,
+      totalTokens: response.usage.totalTokens,
+      cost: response.usage.cost
+    };
+  };
+
+  // A fixed number of workers take the next case until none are left
+  let next = 0;
+  const worker = async () => {
+    while (next < dataset.length) {
+      const index = next++;
+      results[index] = await runCase(dataset[index], index);
+      options.onCaseComplete?.(results[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, dataset.length)) }, worker));
+
+  if (tracer) {
+    await tracer.flush();
+  }
+  return summarize(name, startedAt, results);
+}
@@ -0,0 +1,152 @@
+import { generateObject } from 'ai';
+import type { LanguageModel } from 'ai';
+import { z } from 'zod';
+import { resolveModel } from '../model-providers/index';
+import type { ExpectedToolCall, ScoreResult, Scorer } from './types';
+
+const pass = (reason?: string): ScoreResult => ({ score: 1, passed: true, reason });
+const fail = (reason: string, score = 0): ScoreResult => ({ score, passed: false, reason });
+
+const JUDGE_PROMPT = `You grade answers of an AI agent. Score how well the answer meets the criteria from 0 to 1,
+where 1 fully meets them and 0 does not meet them at all. Give one or two sentences of reasoning.`;
+
+// Models often wrap JSON answers in a markdown code block
+function parseJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse(fenced ? fenced[1] : text);
+}
+
+/**
+ * Passes when the output equals `expected.output`; objects are compared as JSON
+ */
+export function exactMatch(options: { caseSensitive?: boolean; trim?: boolean } = {}): Scorer {
+  const { caseSensitive = true, trim = true } = options;
+  const normalize = (value: string) => {
+    const trimmed = trim ? value.trim() : value;
+    return caseSensitive ? trimmed : trimmed.toLowerCase();
+  };
+
+  return {
+    name: 'exact-match',
+    score: ({ evalCase, output }) => {
+      const expected = evalCase.expected?.output;
+      if (expected === undefined) return pass('No expected output');
+      const expectedText = typeof expected === 'string' ? expected : JSON.stringify(expected);
+      return normalize(output) === normalize(expectedText)
+        ? pass()
+        : fail(`Expected ${JSON.stringify(expectedText)}`);
+    }
+  };
+}
+
+/**
+ * Passes when the output matches `expected.pattern`, or the given pattern
+ */
+export function regexMatch(pattern?: RegExp): Scorer {
+  return {
+    name: 'regex',
+    score: ({ evalCase, output }) => {
+      const regex = evalCase.expected?.pattern ? new RegExp(evalCase.expected.pattern) : pattern;
+      if (!regex) return pass('No pattern');
+      return regex.test(output) ? pass() : fail(`Output does not match ${regex}`);
+    }
+  };
+}
+
+/**
+ * Passes when the structured output, or the answer parsed as JSON, is valid for the schema
+ */
+export function jsonSchema(schema: z.ZodType): Scorer {
+  return {
+    name: 'json-schema',
+    score: ({ output, response }) => {
+      let value = response.structuredOutput;
+      if (value === undefined) {
+        try {
+          value = parseJson(output);
+        } catch {
+          return fail('Output is not valid JSON');
+        }
+      }
+      const result = schema.safeParse(value);
+      return result.success ? pass() : fail(result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+    }
+  };
+}
+
+// Expected arguments are a subset of the actual ones; nested values are compared as JSON
+function argsMatch(expected: ExpectedToolCall['args'], actual: unknown) {
+  if (!expected) return true;
+  const args = (actual ?? {}) as Record<string, unknown>;
+  return Object.entries(expected).every(([key, value]) => JSON.stringify(args[key]) === JSON.stringify(value));
+}
+
+/**
+ * Scores the share of `expected.toolCalls` the run made. With `ordered`, they must be
+ * made in that order; with `exact`, no other tool calls are allowed.
+ */
+export function toolCalls(options: { ordered?: boolean; exact?: boolean } = {}): Scorer {
+  return {
+    name: 'tool-calls',
+    score: ({ evalCase, response }) => {
+      const expected = evalCase.expected?.toolCalls;
+      if (!expected) return pass('No expected tool calls');
+      const actual = response.toolCalls;
+
+      // Each actual call can satisfy one expectation; ordered matching only looks ahead
+      const used = new Set<number>();
+      let position = 0;
+      const missing = expected.filter(call => {
+        const index = actual.findIndex((toolCall, i) =>
+          !used.has(i) && (!options.ordered || i >= position) && toolCall.toolName === call.name && argsMatch(call.args, toolCall.args)
+        );
+        if (index === -1) return true;
+        used.add(index);
+        position = index + 1;
+        return false;
+      });
+      const unexpected = options.exact ? actual.filter((_, i) => !used.has(i)) : [];
+
+      const matched = expected.length - missing.length;
+      const score = expected.length + unexpected.length === 0 ? 1 : matched / (expected.length + unexpected.length);
+      if (missing.length === 0 && unexpected.length === 0) return pass();
+      return fail([
+        missing.length > 0 && `Missing ${missing.map(call => call.name).join(', ')}`,
+        unexpected.length > 0 && `Unexpected ${unexpected.map(call => call.toolName).join(', ')}`
+      ].filter(Boolean).join('; '), score);
+    }
+  };
+}
+
+/**
+ * Has a model grade the answer against `expected.criteria`, or the given criteria.
+ * Passes at `threshold` (default 0.7).
+ */
+export function llmJudge(options: { model: LanguageModel | string | string[]; criteria?: string; threshold?: number }): Scorer {
+  const { threshold = 0.7 } = options;
+  const model = resolveModel(options.model);
+
+  return {
+    name: 'llm-judge',
+    score: async ({ evalCase, output }) => {
+      const criteria = evalCase.expected?.criteria ?? options.criteria;
+      if (!criteria) return pass('No criteria');
+
+      const { object } = await generateObject({
+        model,
+        schema: z.object({
+          score: z.number().min(0).max(1),
+          reasoning: z.string()
+        }),
+        system: JUDGE_PROMPT,
+        prompt: [
+          `Criteria:\n${criteria}`,
+          evalCase.input && `Request:\n${evalCase.input}`,
+          evalCase.expected?.output !== undefined && `Reference answer:\n${JSON.stringify(evalCase.expected.output)}`,
+          `Answer:\n${output}`
+        ].filter(Boolean).join('\n\n')
+      });
+      return { score: object.score, passed: object.score >= threshold, reason: object.reasoning };
+    }
+  };
+}
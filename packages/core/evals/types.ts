@@ -0,0 +1,97 @@
+import type { Agent, AgentMessage, AgentResponse, AgentToolCall, ToolContext } from '../agents/types';
+import type { Tracer } from '../tracing/types';
+
+export interface ExpectedToolCall {
+  name: string;
+  args?: Record<string, unknown>;      // Only the given arguments are compared
+}
+
+// What a case is expected to produce; each scorer reads the expectations it needs
+export interface EvalExpectation {
+  output?: unknown;                    // Compared by exactMatch
+  pattern?: string;                    // Regular expression for regexMatch
+  toolCalls?: ExpectedToolCall[];      // Checked by toolCalls
+  criteria?: string;                   // What llmJudge grades the answer against
+}
+
+/**
+ * One line of a dataset
+ */
+export interface EvalCase {
+  id?: string;                         // Defaults to the line number
+  input?: string;                      // Prompt for the agent
+  messages?: AgentMessage[];           // Conversation to continue, before the input
+  expected?: EvalExpectation;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ScoreResult {
+  score: number;                       // 0 to 1
+  passed: boolean;
+  reason?: string;
+}
+
+export interface ScorerInput {
+  evalCase: EvalCase;
+  output: string;                      // The structured output as JSON, or the text
+  response: AgentResponse;
+}
+
+export interface Scorer {
+  name: string;
+  score: (input: ScorerInput) => ScoreResult | Promise<ScoreResult>;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  input?: string;
+  output?: string;
+  toolCalls: AgentToolCall[];
+  scores: Record<string, ScoreResult>;
+  passed: boolean;                     // Every scorer passed and the run did not fail
+  error?: string;                      // The agent run or a scorer failed
+  traceId?: string;                    // Trace of the case's run
+  durationMs: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface ScorerSummary {
+  averageScore: number;
+  passRate: number;
+}
+
+export interface EvalReport {
+  name: string;
+  startedAt: string;
+  durationMs: number;
+  cases: EvalCaseResult[];             // In dataset order
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    errored: number;
+    passRate: number;
+    scorers: Record<string, ScorerSummary>;
+    totalTokens: number;
+    cost: number;
+  };
+}
+
+export interface EvalOptions {
+  name: string;
+  agent: Agent<any>;
+  dataset: EvalCase[];
+  scorers: Scorer[];
+  concurrency?: number;                // Cases run at the same time (default 4)
+  tracer?: Tracer;                     // Each case gets its own trace on this tracer
+  context?: ToolContext;               // Passed to every run, e.g. a userId for budgets
+  onCaseComplete?: (result: EvalCaseResult) => void;
+}
+
+export interface EvalRegression {
+  id: string;
+  scorer?: string;                     // The scorer that stopped passing; missing when the run itself failed
+  baseline: number;
+  current: number;
+}
@@ -0,0 +1,269 @@
+import type { z } from 'zod';
+import type { Guardrail, GuardrailMatchAction, GuardrailResult } from './types';
+
+export type PiiType = 'email' | 'phone' | 'creditCard' | 'ssn' | 'ipAddress' | 'iban';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const withGlobalFlag = (pattern: RegExp) =>
+  new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+
+const matchesOf = (text: string, pattern: RegExp) => [...text.matchAll(withGlobalFlag(pattern))].map(match => match[0]);
+
+// Text a guardrail cannot rewrite is blocked instead
+function onMatch(action: GuardrailMatchAction, reason: string, rewrite?: () => string): GuardrailResult {
+  if (action === 'rewrite') {
+    return rewrite ? { action, text: rewrite(), reason } : { action: 'block', reason };
+  }
+  return { action, reason };
+}
+
+// Card numbers pass the Luhn checksum, which rules out most other long numbers
+function passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length >= 13 && digits.length <= 19 && sum % 10 === 0;
+}
+
+// Checked in this order, so numbers already replaced (cards, IP addresses) are not also taken for phone numbers
+const PII_PATTERNS: { type: PiiType; label: string; pattern: RegExp; accept?: (match: string) => boolean }[] = [
+  { type: 'email', label: 'EMAIL', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { type: 'iban', label: 'IBAN', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g },
+  { type: 'creditCard', label: 'CREDIT_CARD', pattern: /\b(?:\d[ -]?){12,18}\d\b/g, accept: passesLuhn },
+  { type: 'ssn', label: 'SSN', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  {
+    type: 'ipAddress',
+    label: 'IP_ADDRESS',
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g
+  },
+  {
+    type: 'phone',
+    label: 'PHONE',
+    pattern: /(?<![\w+])\+?\(?\d[\d\s().-]{7,}\d(?!\w)/g,
+    accept: (match) => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= 9 && digits <= 15;
+    }
+  }
+];
+
+const ALL_PII_TYPES = PII_PATTERNS.map(({ type }) => type);
+
+/**
+ * Replaces personal data with a placeholder such as [EMAIL] and counts what was found.
+ * Detection is pattern based: it catches common formats, not every way of writing them.
+ */
+export function redactPii(text: string, types: PiiType[] = ALL_PII_TYPES): { text: string; found: Partial<Record<PiiType, number>> } {
+  const found: Partial<Record<PiiType, number>> = {};
+  let redacted = text;
+  for (const { type, label, pattern, accept } of PII_PATTERNS) {
+    if (!types.includes(type)) continue;
+    redacted = redacted.replace(pattern, (match) => {
+      if (accept && !accept(match)) return match;
+      found[type] = (found[type] ?? 0) + 1;
+      return `[${label}]`;
+    });
+  }
+  return { text: redacted, found };
+}
+
+/**
+ * Finds emails, phone numbers, card numbers, US social security numbers, IP addresses
+ * and IBANs. By default they are replaced with placeholders so the model never sees them.
+ */
+export function piiGuardrail(options: { name?: string; types?: PiiType[]; action?: GuardrailMatchAction } = {}): Guardrail {
+  const { name = 'pii', types = ALL_PII_TYPES, action = 'rewrite' } = options;
+  return {
+    name,
+    check({ text }) {
+      const redacted = redactPii(text, types);
+      const found = Object.entries(redacted.found);
+      if (found.length === 0) return { action: 'pass' };
+      const reason = `Found personal data: ${found.map(([type, count]) => `${type} (${count})`).join(', ')}`;
+      return onMatch(action, reason, () => redacted.text);
+    }
+  };
+}
+
+// Phrases tool results use to take over the model; written to keep false positives rare
+const INJECTION_PATTERNS = [
+  /\b(?:ignore|disregard|forget|override)\b[^.!?\n"]{0,40}\b(?:previous|prior|above|earlier|all|any|your|system)\b[^.!?\n"]{0,20}\b(?:instructions?|prompts?|rules|directions|guidelines)\b/i,
+  /\b(?:you are now|from now on,? you (?:are|will|must))\b/i,
+  /\b(?:reveal|print|show|repeat|output|leak)\b[^.!?\n"]{0,30}\b(?:system prompt|your instructions|hidden instructions|initial prompt)\b/i,
+  /\bnew (?:system )?instructions?\s*:/i,
+  /\bdo not (?:tell|inform|alert) the user\b/i,
+  /<\|(?:im_start|im_end|system|endoftext)\|>|\[\/?INST\]|<\/?system>/i
+];
+
+const INJECTION_MARKER = '[removed: possible prompt injection]';
+
+/**
+ * Flags instructions hidden in content, such as "ignore previous instructions" in a web
+ * page returned by a search tool. By default the sentences are removed from the text.
+ * Heuristic: it stops common attacks, not a determined attacker.
+ */
+export function promptInjectionGuardrail(options: {
+  name?: string;
+  patterns?: RegExp[];                 // Added to the default patterns
+  action?: GuardrailMatchAction;
+} = {}): Guardrail {
+  const { name = 'prompt-injection', action = 'rewrite' } = options;
+  const patterns = [...INJECTION_PATTERNS, ...(options.patterns ?? [])];
+  // The whole sentence goes, but never past a quote, so JSON stays parseable
+  const sentences = patterns.map(pattern =>
+    new RegExp(`[^.!?\\n"]*(?:${pattern.source})[^.!?\\n"]*[.!?]?`, pattern.flags.replace('g', '') + 'g')
+  );
+
+  return {
+    name,
+    check({ text }) {
+      const matched = patterns.flatMap(pattern => matchesOf(text, pattern));
+      if (matched.length === 0) return { action: 'pass' };
+      const reason = `Possible prompt injection: ${matched.map(match => `"${match.trim()}"`).join(', ')}`;
+      return onMatch(action, reason, () => sentences.reduce(
+        (result, pattern) => result.replace(pattern, match => `${match.match(/^\s*/)?.[0] ?? ''}${INJECTION_MARKER}`),
+        text
+      ));
+    }
+  };
+}
+
+/**
+ * Rejects or masks terms. Strings match whole words, ignoring case; regular
+ * expressions are used as they are, e.g. /\p{Emoji_Presentation}/u for emojis.
+ */
+export function bannedTerms(options: {
+  terms: (string | RegExp)[];
+  name?: string;
+  action?: GuardrailMatchAction;
+  replacement?: string;                // Used by 'rewrite' (default '***')
+}): Guardrail {
+  const { name = 'banned-terms', action = 'block', replacement = '***' } = options;
+  const patterns = options.terms.map(term => {
+    if (term instanceof RegExp) return withGlobalFlag(term);
+    const escaped = escapeRegExp(term);
+    // \b only applies next to word characters
+    const start = /^\w/.test(term) ? '\\b' : '';
+    const end = /\w$/.test(term) ? '\\b' : '';
+    return new RegExp(`${start}${escaped}${end}`, 'giu');
+  });
+
+  return {
+    name,
+    check({ text }) {
+      const matched = [...new Set(patterns.flatMap(pattern => matchesOf(text, pattern)))];
+      if (matched.length === 0) return { action: 'pass' };
+      return onMatch(action, `Contains banned terms: ${matched.join(', ')}`, () =>
+        patterns.reduce((result, pattern) => result.replace(pattern, replacement), text)
+      );
+    }
+  };
+}
+
+/**
+ * Limits the length in characters or words. 'rewrite' truncates text that is too long;
+ * text that is too short cannot be rewritten and is blocked.
+ */
+export function lengthLimit(options: {
+  maxChars?: number;
+  minChars?: number;
+  maxWords?: number;
+  name?: string;
+  action?: GuardrailMatchAction;
+}): Guardrail {
+  const { maxChars, minChars, maxWords, name = 'length-limit', action = 'block' } = options;
+  return {
+    name,
+    check({ text }) {
+      const words = text.trim().split(/\s+/).filter(Boolean);
+      if (maxChars !== undefined && text.length > maxChars) {
+        return onMatch(action, `Text has ${text.length} characters, more than ${maxChars}`, () => text.slice(0, maxChars));
+      }
+      if (maxWords !== undefined && words.length > maxWords) {
+        return onMatch(action, `Text has ${words.length} words, more than ${maxWords}`, () => words.slice(0, maxWords).join(' '));
+      }
+      if (minChars !== undefined && text.trim().length < minChars) {
+        return onMatch(action, `Text has ${text.trim().length} characters, fewer than ${minChars}`);
+      }
+      return { action: 'pass' };
+    }
+  };
+}
+
+/**
+ * Checks text against a regular expression: 'forbid' fails on a match ('rewrite'
+ * replaces the matches), 'require' fails without one.
+ */
+export function regexGuardrail(options: {
+  name: string;
+  pattern: RegExp;
+  mode?: 'forbid' | 'require';
+  action?: GuardrailMatchAction;
+  message?: string;                    // The reason given on a failure
+  replacement?: string;                // Used by 'rewrite' (default '')
+}): Guardrail {
+  const { name, pattern, mode = 'forbid', action = 'block', replacement = '' } = options;
+  const global = withGlobalFlag(pattern);
+
+  return {
+    name,
+    check({ text }) {
+      const matched = matchesOf(text, pattern);
+      if (mode === 'require') {
+        return matched.length > 0
+          ? { action: 'pass' }
+          : onMatch(action, options.message ?? `Text does not match ${pattern}`);
+      }
+      if (matched.length === 0) return { action: 'pass' };
+      return onMatch(action, options.message ?? `Text matches ${pattern}: ${matched.join(', ')}`, () =>
+        text.replace(global, replacement)
+      );
+    }
+  };
+}
+
+function parseJson(text: string): { ok: true; value: unknown } | { ok: false } {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  try {
+    return { ok: true, value: JSON.parse(fenced ? fenced[1] : text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/**
+ * Requires the text to be JSON that fits a zod schema. 'rewrite' replaces the text
+ * with the parsed value, e.g. with unknown keys stripped; invalid JSON is blocked.
+ */
+export function schemaGuardrail(options: {
+  schema: z.ZodTypeAny;
+  name?: string;
+  action?: GuardrailMatchAction;
+}): Guardrail {
+  const { schema, name = 'schema', action = 'block' } = options;
+  return {
+    name,
+    check({ text }) {
+      const parsed = parseJson(text);
+      if (!parsed.ok) {
+        return { action: action === 'rewrite' ? 'block' : action, reason: 'Text is not valid JSON' };
+      }
+      const result = schema.safeParse(parsed.value);
+      if (!result.success) {
+        const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'value'}: ${issue.message}`);
+        return { action: action === 'rewrite' ? 'block' : action, reason: `Does not match the schema: ${issues.join('; ')}` };
+      }
+      return action === 'rewrite' && JSON.stringify(result.data) !== text
+        ? { action: 'rewrite', text: JSON.stringify(result.data), reason: 'Normalized to the schema' }
+        : { action: 'pass' };
+    }
+  };
+}
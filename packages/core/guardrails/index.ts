@@ -0,0 +1,21 @@
+export type {
+  Guardrail,
+  GuardrailAction,
+  GuardrailInput,
+  GuardrailMatchAction,
+  GuardrailResult,
+  GuardrailsConfig,
+  GuardrailStage
+} from './types';
+export {
+  bannedTerms,
+  lengthLimit,
+  piiGuardrail,
+  promptInjectionGuardrail,
+  redactPii,
+  regexGuardrail,
+  schemaGuardrail
+} from './checks';
+export type { PiiType } from './checks';
+export { isGuardrailError, runGuardrails } from './run-guardrails';
+export type { GuardrailOutcome, GuardrailRunOptions } from './run-guardrails';
@@ -0,0 +1,149 @@
+import type { CoreMessage } from 'ai';
+import type { AgentEvent, Logger, ToolContext } from '../agents/types';
+import type { TraceSpan } from '../tracing/types';
+import type { Guardrail, GuardrailStage } from './types';
+
+export type GuardrailEvent = Extract<AgentEvent, { type: 'guardrail' }>;
+
+export interface GuardrailRunOptions {
+  stage: GuardrailStage;
+  toolName?: string;
+  context: ToolContext;
+  parentSpan?: TraceSpan;              // Each decision gets a span beneath it
+  emit: (event: AgentEvent) => void;
+  log: Logger;
+}
+
+export interface GuardrailOutcome {
+  text: string;                        // After every rewrite
+  rewritten: boolean;
+  blocked?: { guardrail: string; reason: string };
+  retry?: { guardrail: string; reason: string };  // Only at the output stage
+}
+
+export function isGuardrailError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'GuardrailError';
+}
+
+export function createGuardrailError(stage: GuardrailStage, guardrail: string, reason: string): Error {
+  const error = new Error(`${stage === 'output' ? 'Output' : 'Input'} blocked by guardrail ${guardrail}: ${reason}`);
+  error.name = 'GuardrailError';
+  return error;
+}
+
+const startGuardrailSpan = (parent: TraceSpan | undefined, decision: Pick<GuardrailEvent['content'], 'guardrail' | 'stage' | 'toolName'>) =>
+  parent?.span({ name: `guardrail-${decision.guardrail}`, input: { stage: decision.stage, toolName: decision.toolName } });
+
+function endGuardrailSpan(span: TraceSpan | undefined, { action, reason }: GuardrailEvent['content']) {
+  span?.end({
+    output: { action, reason },
+    ...((action === 'block' || action === 'retry') && { level: 'WARNING', statusMessage: reason })
+  });
+}
+
+// For decisions made before their parent span existed, such as those on a run's input
+export function recordGuardrailSpan(parent: TraceSpan | undefined, decision: GuardrailEvent['content']) {
+  endGuardrailSpan(startGuardrailSpan(parent, decision), decision);
+}
+
+/**
+ * Runs guardrails in order over a text. Each one sees the text as rewritten by those
+ * before it; the first block or retry stops the rest. Every decision, passes included,
+ * is emitted as a `guardrail` event and recorded as a span. A guardrail that throws
+ * blocks, so a broken check never lets content through.
+ */
+export async function runGuardrails(
+  guardrails: Guardrail[],
+  text: string,
+  options: GuardrailRunOptions
+): Promise<GuardrailOutcome> {
+  const { stage, toolName, context, parentSpan, emit, log } = options;
+  let current = text;
+  let rewritten = false;
+
+  for (const guardrail of guardrails) {
+    const span = startGuardrailSpan(parentSpan, { guardrail: guardrail.name, stage, toolName });
+
+    let result;
+    try {
+      result = await guardrail.check({ stage, text: current, toolName, context });
+    } catch (error) {
+      result = { action: 'block' as const, reason: `Guardrail failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+    // Retrying only means something for an answer the model can write again
+    if (result.action === 'retry' && stage !== 'output') {
+      result = { action: 'block' as const, reason: result.reason };
+    }
+
+    const decision: GuardrailEvent['content'] = {
+      guardrail: guardrail.name,
+      stage,
+      action: result.action,
+      reason: result.action === 'pass' ? undefined : result.reason,
+      toolName
+    };
+    emit({ type: 'guardrail', content: decision });
+    endGuardrailSpan(span, decision);
+
+    if (result.action === 'pass') continue;
+    log.warn(`Guardrail ${guardrail.name}: ${result.action}`, { stage, toolName, reason: result.reason });
+
+    if (result.action === 'rewrite') {
+      current = result.text;
+      rewritten = true;
+      continue;
+    }
+    return { text: current, rewritten, [result.action === 'block' ? 'blocked' : 'retry']: { guardrail: guardrail.name, reason: result.reason } };
+  }
+
+  return { text: current, rewritten };
+}
+
+/**
+ * Checks the text of new user messages; rewrites replace the message content.
+ * Returns the error to fail the run with when a message is blocked.
+ */
+export async function guardMessages(
+  messages: CoreMessage[],
+  guardrails: Guardrail[],
+  options: GuardrailRunOptions
+): Promise<{ messages: CoreMessage[]; error?: Error }> {
+  const guarded: CoreMessage[] = [];
+  for (const message of messages) {
+    if (message.role !== 'user' || typeof message.content !== 'string') {
+      guarded.push(message);
+      continue;
+    }
+    const outcome = await runGuardrails(guardrails, message.content, options);
+    const failed = outcome.blocked ?? outcome.retry;
+    if (failed) {
+      return { messages, error: createGuardrailError(options.stage, failed.guardrail, failed.reason) };
+    }
+    guarded.push({ ...message, content: outcome.text });
+  }
+  return { messages: guarded };
+}
+
+/**
+ * Checks a tool result before the model sees it. Results that are not strings are
+ * checked as JSON and parsed back after a rewrite. A blocked result is replaced with
+ * a notice, so the model can carry on without it.
+ */
+export async function guardToolResult(
+  result: unknown,
+  guardrails: Guardrail[],
+  options: GuardrailRunOptions
+): Promise<unknown> {
+  const text = typeof result === 'string' ? result : JSON.stringify(result) ?? '';
+  const outcome = await runGuardrails(guardrails, text, options);
+  if (outcome.blocked) {
+    return { status: 'blocked', reason: `Tool result blocked by guardrail ${outcome.blocked.guardrail}: ${outcome.blocked.reason}` };
+  }
+  if (!outcome.rewritten) return result;
+  if (typeof result === 'string') return outcome.text;
+  try {
+    return JSON.parse(outcome.text);
+  } catch {
+    return outcome.text;
+  }
+}
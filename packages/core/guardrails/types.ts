@@ -0,0 +1,39 @@
+import type { ToolContext } from '../agents/types';
+
+// Where a guardrail runs: new user messages, tool results before the model sees them, or the final answer
+export type GuardrailStage = 'input' | 'tool-result' | 'output';
+
+export type GuardrailAction = 'pass' | 'block' | 'rewrite' | 'retry';
+
+export interface GuardrailInput {
+  stage: GuardrailStage;
+  text: string;                        // Tool results that are not strings are checked as JSON
+  toolName?: string;                   // Set for tool results
+  context: ToolContext;
+}
+
+/**
+ * What a guardrail decided. `rewrite` replaces the text for the guardrails after it and
+ * for the run. `retry` asks the model for a new answer with the reason as feedback; it
+ * only applies to output and blocks at the other stages.
+ */
+export type GuardrailResult =
+  | { action: 'pass' }
+  | { action: 'block'; reason: string }
+  | { action: 'rewrite'; text: string; reason: string }
+  | { action: 'retry'; reason: string };
+
+export interface Guardrail {
+  name: string;
+  check: (input: GuardrailInput) => GuardrailResult | Promise<GuardrailResult>;
+}
+
+export interface GuardrailsConfig {
+  input?: Guardrail[];                 // Checked in order; the first block or retry stops the rest
+  toolResults?: Guardrail[];
+  output?: Guardrail[];
+  maxOutputRetries?: number;           // New answers requested by `retry` before the run is blocked (default 1)
+}
+
+// The action most built-in guardrails take, and what they do on a match
+export type GuardrailMatchAction = Exclude<GuardrailAction, 'pass'>;
@@ -0,0 +1,77 @@
+// Agents
+export { createAgent } from './agents/base-agent';
+export { agentAsTool } from './agents/agent-as-tool';
+export type { AgentAsToolOptions } from './agents/agent-as-tool';
+export { createRouter } from './agents/router';
+export type { Route, RouterConfig, RouterDecision, RouterResult, RouterRunOptions } from './agents/router';
+export { estimateMessageTokens } from './agents/context-manager';
+export { createInMemoryUsageStore, isBudgetExceededError } from './agents/usage';
+export * from './agents/types';
+export {
+  formatResponse,
+  formatStructuredResponse,
+  setDebugOptions,
+  debug,
+  debugObject
+} from './agents/utils';
+
+// Guardrails
+export * from './guardrails/index';
+
+// Memory
+export * from './memory/index';
+
+// Retrieval: loaders, chunkers, embeddings, vector stores and the retrieve tool
+export * from './rag/index';
+
+// Suspended runs
+export * from './runs/index';
+
+// Workflows
+export * from './workflows/index';
+
+// Tracing
+export * from './tracing/index';
+
+// Logging
+export * from './logging/index';
+
+// Evals
+export * from './evals/index';
+
+// Offline testing: scripted models and record/replay
+export * from './testing/index';
+
+// Model providers
+export { getModel, getOperationalModels, resolveModel } from './model-providers/index';
+export {
+  calculateCost,
+  getContextWindow,
+  getModelInfo,
+  loadModelRegistry,
+  registerModels
+} from './model-providers/model-configs';
+export { createFallbackModel, getFallbackMetadata, isFallbackError } from './model-providers/fallback-model';
+export type { FallbackMetadata, FallbackModelOptions } from './model-providers/fallback-model';
+export type {
+  ModelConfig,
+  ModelConfigOverride,
+  ModelInfo,
+  ModelPricing,
+  ModelProvider
+} from './model-providers/model-configs';
+
+// Tools
+export { createTool } from './tools/types.config';
+export type { ToolConfig } from './tools/types.config';
+export { executeWithPolicy, isCircuitOpenError, isToolTimeoutError } from './tools/tool-policy';
+export type { CircuitBreakerOptions, ToolAttemptOutcome, ToolPolicy } from './tools/tool-policy';
+export {
+  createMemoryCacheBackend,
+  createToolResultCache,
+  hashToolArgs,
+  stableStringify
+} from './tools/tool-cache';
+export type { CacheBackend, ToolCacheOptions, ToolCachePolicy, ToolCacheScope } from './tools/tool-cache';
+export { createFileCacheBackend, createRedisCacheBackend } from './tools/cache-backends';
+export type { FileCacheBackendOptions, RedisLikeClient } from './tools/cache-backends';
@@ -0,0 +1,16 @@
+export type {
+  LoggerOptions,
+  LogLevel,
+  LogRecord,
+  LogRedactor,
+  LogTransport,
+  StructuredLogger
+} from './types';
+export { bindLogger, createLogger, DEFAULT_REDACT_KEYS, LOG_LEVELS } from './logger';
+export { consoleTransport, fileTransport, httpTransport, jsonTransport, toJsonRecord } from './transports';
+export type {
+  ConsoleTransportOptions,
+  FileTransportOptions,
+  HttpTransportOptions,
+  JsonTransportOptions
+} from './transports';
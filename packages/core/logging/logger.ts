@@ -0,0 +1,139 @@
+import type { Logger } from '../agents/types';
+import { consoleTransport, jsonTransport } from './transports';
+import type { LoggerOptions, LogLevel, LogRecord, StructuredLogger } from './types';
+
+export const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export const DEFAULT_REDACT_KEYS = [
+  'apiKey',
+  'api_key',
+  'authorization',
+  'password',
+  'secret',
+  'secretKey',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'cookie'
+];
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 8;
+
+const isLogLevel = (value: unknown): value is LogLevel =>
+  typeof value === 'string' && value in LOG_LEVELS;
+
+// Errors keep their message and stack; masked keys and cycles are replaced
+function sanitize(value: unknown, keys: Set<string>, seen: WeakSet<object>, depth = 0): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (typeof value === 'bigint') return value.toString();
+  if (!value || typeof value !== 'object' || value instanceof Date) return value;
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  seen.add(value);
+
+  const result = Array.isArray(value)
+    ? value.map(item => sanitize(item, keys, seen, depth + 1))
+    : Object.fromEntries(Object.entries(value).map(([key, item]) => [
+        key,
+        keys.has(key.toLowerCase()) ? REDACTED : sanitize(item, keys, seen, depth + 1)
+      ]));
+  seen.delete(value);
+  return result;
+}
+
+/**
+ * Creates a leveled logger that writes structured records to its transports.
+ * Child loggers share the level and transports and add their bindings to every record,
+ * so logs can be filtered by run, trace or tool call.
+ *
+ * Example usage:
+ * ```typescript
+ * const logger = createLogger({
+ *   level: 'debug',
+ *   transports: [consoleTransport(), fileTransport({ path: './logs/agent.jsonl' })],
+ *   bindings: { service: 'support-api' }
+ * });
+ * const agent = createAgent({ name: 'support-agent', model: 'openai:gpt-4o-mini' });
+ * await agent.generate({ prompt, context: { logging: { logger } } });
+ * await logger.flush();
+ * ```
+ */
+export function createLogger(options: LoggerOptions = {}): StructuredLogger {
+  const envLevel = process.env.LOG_LEVEL?.toLowerCase();
+  const state = { level: options.level ?? (isLogLevel(envLevel) ? envLevel : 'info') };
+  const transports = options.transports ?? [process.stdout.isTTY ? consoleTransport() : jsonTransport()];
+  const redactKeys = new Set((options.redactKeys ?? DEFAULT_REDACT_KEYS).map(key => key.toLowerCase()));
+
+  const isLevelEnabled = (level: LogLevel) => LOG_LEVELS[level] >= LOG_LEVELS[state.level];
+
+  function write(level: LogLevel, message: string, fields: Record<string, unknown>) {
+    if (!isLevelEnabled(level)) return;
+
+    const sanitized: LogRecord = {
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      fields: sanitize(fields, redactKeys, new WeakSet()) as Record<string, unknown>
+    };
+    let record: LogRecord | undefined = sanitized;
+    if (options.redact) {
+      try {
+        record = options.redact(sanitized);
+      } catch (error) {
+        // A failing hook must not leak what it was meant to hide
+        record = { ...sanitized, fields: { redactError: error instanceof Error ? error.message : String(error) } };
+      }
+      if (!record) return;
+    }
+
+    for (const transport of transports) {
+      if (transport.level && LOG_LEVELS[level] < LOG_LEVELS[transport.level]) continue;
+      try {
+        transport.write(record);
+      } catch (error) {
+        console.warn('Log transport failed', error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  function build(bindings: Record<string, unknown>): StructuredLogger {
+    const log = (level: LogLevel) => (message: string, meta?: Record<string, unknown>) =>
+      write(level, message, { ...bindings, ...meta });
+
+    return {
+      get level() {
+        return state.level;
+      },
+      setLevel: (level) => {
+        state.level = level;
+      },
+      isLevelEnabled,
+      debug: log('debug'),
+      info: log('info'),
+      warn: log('warn'),
+      error: log('error'),
+      child: (childBindings) => build({ ...bindings, ...childBindings }),
+      flush: async () => {
+        await Promise.all(transports.map(transport => transport.flush?.()));
+      }
+    };
+  }
+
+  return build(options.bindings ?? {});
+}
+
+const noop = () => {};
+const silentLogger: Logger = { debug: noop, info: noop, warn: noop, error: noop };
+
+/**
+ * Narrows a logger to a run, trace or tool call. Loggers without `child` are used
+ * as they are, and a missing logger logs nothing.
+ */
+export function bindLogger(logger: Logger | undefined, bindings: Record<string, unknown>): Logger {
+  if (!logger) return silentLogger;
+  const defined = Object.fromEntries(Object.entries(bindings).filter(([, value]) => value !== undefined));
+  return logger.child ? logger.child(defined) : logger;
+}
@@ -0,0 +1,167 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { inspect } from 'node:util';
+import type { LogLevel, LogRecord, LogTransport } from './types';
+
+// One flat object per record, with the fields beside timestamp, level and message
+export function toJsonRecord(record: LogRecord): Record<string, unknown> {
+  return { ...record.fields, timestamp: record.timestamp, level: record.level, message: record.message };
+}
+
+const COLORS: Record<LogLevel, string> = { debug: '\x1b[90m', info: '\x1b[36m', warn: '\x1b[33m', error: '\x1b[31m' };
+const RESET = '\x1b[0m';
+
+export interface ConsoleTransportOptions {
+  level?: LogLevel;
+  colors?: boolean;                    // Defaults to whether stdout is a terminal
+}
+
+/**
+ * Human-readable lines for local development; warnings and errors go to stderr
+ */
+export function consoleTransport(options: ConsoleTransportOptions = {}): LogTransport {
+  const colors = options.colors ?? !!process.stdout.isTTY;
+
+  return {
+    level: options.level,
+    write(record) {
+      const time = record.timestamp.slice(11, 23);
+      const level = record.level.toUpperCase().padEnd(5);
+      const fields = Object.keys(record.fields).length > 0
+        ? ` ${inspect(record.fields, { depth: null, colors, compact: true, breakLength: Infinity })}`
+        : '';
+      const line = colors
+        ? `${COLORS[record.level]}${time} ${level}${RESET} ${record.message}${fields}`
+        : `${time} ${level} ${record.message}${fields}`;
+      (record.level === 'warn' || record.level === 'error' ? process.stderr : process.stdout).write(`${line}\n`);
+    }
+  };
+}
+
+export interface JsonTransportOptions {
+  level?: LogLevel;
+  stream?: NodeJS.WritableStream;      // Defaults to stdout
+}
+
+/**
+ * JSON lines, for log collectors that read a process's output
+ */
+export function jsonTransport(options: JsonTransportOptions = {}): LogTransport {
+  const stream = options.stream ?? process.stdout;
+  return {
+    level: options.level,
+    write(record) {
+      stream.write(`${JSON.stringify(toJsonRecord(record))}\n`);
+    }
+  };
+}
+
+export interface FileTransportOptions {
+  path: string;                        // JSON lines are appended; the directory is created
+  level?: LogLevel;
+  flushIntervalMs?: number;            // Delay before buffered lines are written (default 1000)
+}
+
+/**
+ * Appends JSON lines to a file. Writes are batched; call `flush` before the process exits.
+ */
+export function fileTransport(options: FileTransportOptions): LogTransport {
+  const { flushIntervalMs = 1000 } = options;
+  let buffer: string[] = [];
+  let timer: NodeJS.Timeout | undefined;
+  let writing = Promise.resolve();
+
+  function flush() {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+    const lines = buffer;
+    buffer = [];
+    if (lines.length === 0) return writing;
+
+    writing = writing.then(async () => {
+      await fs.promises.mkdir(path.dirname(options.path), { recursive: true });
+      await fs.promises.appendFile(options.path, lines.join(''));
+    }).catch(error => {
+      console.warn('Failed to write logs', error instanceof Error ? error.message : String(error));
+    });
+    return writing;
+  }
+
+  return {
+    level: options.level,
+    write(record) {
+      buffer.push(`${JSON.stringify(toJsonRecord(record))}\n`);
+      timer ??= setTimeout(flush, flushIntervalMs);
+      timer.unref?.();
+    },
+    flush
+  };
+}
+
+export interface HttpTransportOptions {
+  url: string;                         // Receives a POST with a JSON array of records
+  headers?: Record<string, string>;
+  level?: LogLevel;
+  batchSize?: number;                  // Records sent at once (default 50)
+  flushIntervalMs?: number;            // Delay before a partial batch is sent (default 2000)
+  maxBufferSize?: number;              // Records waiting to be sent; new ones are dropped beyond this (default 1000)
+  fetch?: typeof fetch;
+}
+
+/**
+ * Sends records in batches to a log collector. A failed batch is dropped with a
+ * warning rather than retried, so logging cannot slow a run down or exhaust memory.
+ */
+export function httpTransport(options: HttpTransportOptions): LogTransport {
+  const { url, batchSize = 50, flushIntervalMs = 2000, maxBufferSize = 1000 } = options;
+  const send = options.fetch ?? fetch;
+  let buffer: Record<string, unknown>[] = [];
+  let timer: NodeJS.Timeout | undefined;
+  let sending = Promise.resolve();
+  let queued = 0;                      // Records handed to `post` that were not sent yet
+
+  async function post(batch: Record<string, unknown>[]) {
+    try {
+      const response = await send(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...options.headers },
+        body: JSON.stringify(batch)
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+    } catch (error) {
+      console.warn(`Failed to send ${batch.length} log records to ${url}`, error instanceof Error ? error.message : String(error));
+    } finally {
+      queued -= batch.length;
+    }
+  }
+
+  function flush() {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+    const batches: Record<string, unknown>[][] = [];
+    while (buffer.length > 0) batches.push(buffer.splice(0, batchSize));
+    for (const batch of batches) {
+      queued += batch.length;
+      sending = sending.then(() => post(batch));
+    }
+    return sending;
+  }
+
+  return {
+    level: options.level,
+    write(record) {
+      // A slow or unreachable collector must not hold on to every record
+      if (queued + buffer.length >= maxBufferSize) return;
+      buffer.push(toJsonRecord(record));
+      if (buffer.length >= batchSize) {
+        void flush();
+        return;
+      }
+      timer ??= setTimeout(flush, flushIntervalMs);
+      timer.unref?.();
+    },
+    flush
+  };
+}
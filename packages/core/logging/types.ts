@@ -0,0 +1,45 @@
+import type { Logger } from '../agents/types';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * One log entry; `fields` holds the logger's bindings merged with the entry's metadata
+ */
+export interface LogRecord {
+  timestamp: string;                   // ISO 8601
+  level: LogLevel;
+  message: string;
+  fields: Record<string, unknown>;
+}
+
+/**
+ * Where records go. `write` must not throw or block; transports that do I/O
+ * buffer and finish the work in `flush`.
+ */
+export interface LogTransport {
+  level?: LogLevel;                    // Records below this level are skipped by this transport
+  write: (record: LogRecord) => void;
+  flush?: () => Promise<void>;
+}
+
+// Returns the record to write, changed or not, or undefined to drop it
+export type LogRedactor = (record: LogRecord) => LogRecord | undefined;
+
+export interface LoggerOptions {
+  level?: LogLevel;                    // Defaults to LOG_LEVEL, otherwise 'info'
+  transports?: LogTransport[];         // Defaults to pretty output on a terminal, otherwise JSON lines on stdout
+  bindings?: Record<string, unknown>;  // Fields added to every record
+  redactKeys?: string[];               // Values under these keys are masked at any depth (case-insensitive)
+  redact?: LogRedactor;                // Runs after key redaction
+}
+
+/**
+ * A Logger that can be narrowed to a run, trace or tool call with `child`
+ */
+export interface StructuredLogger extends Logger {
+  readonly level: LogLevel;
+  setLevel: (level: LogLevel) => void; // Applies to the logger and all its children
+  isLevelEnabled: (level: LogLevel) => boolean;
+  child: (bindings: Record<string, unknown>) => StructuredLogger;
+  flush: () => Promise<void>;          // Waits for every transport to finish writing
+}
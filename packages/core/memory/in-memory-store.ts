@@ -0,0 +1,23 @@
+import type { CoreMessage } from 'ai';
+import type { MemoryStore } from './types';
+
+/**
+ * Keeps conversations in process memory; history is lost on restart
+ */
+export function createInMemoryStore(): MemoryStore {
+  const conversations = new Map<string, CoreMessage[]>();
+
+  return {
+    async load(conversationId) {
+      return [...(conversations.get(conversationId) ?? [])];
+    },
+
+    async append(conversationId, messages) {
+      conversations.set(conversationId, [...(conversations.get(conversationId) ?? []), ...messages]);
+    },
+
+    async clear(conversationId) {
+      conversations.delete(conversationId);
+    }
+  };
+}
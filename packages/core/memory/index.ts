@@ -0,0 +1,6 @@
+export type { MemoryStore } from './types';
+export { createInMemoryStore } from './in-memory-store';
+export { createJsonFileStore } from './json-file-store';
+export type { JsonFileStoreOptions } from './json-file-store';
+export { createSqliteStore } from './sqlite-store';
+export type { SqliteStoreOptions } from './sqlite-store';
@@ -0,0 +1,56 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { CoreMessage } from 'ai';
+import type { MemoryStore } from './types';
+
+export interface JsonFileStoreOptions {
+  directory: string;   // One <conversationId>.json file is written per conversation
+}
+
+/**
+ * Stores each conversation as a JSON array of messages in its own file
+ */
+export function createJsonFileStore({ directory }: JsonFileStoreOptions): MemoryStore {
+  // Writes to the same conversation are chained so concurrent runs cannot drop messages
+  const pendingWrites = new Map<string, Promise<void>>();
+
+  const fileFor = (conversationId: string) =>
+    path.join(directory, `${encodeURIComponent(conversationId)}.json`);
+
+  async function read(conversationId: string): Promise<CoreMessage[]> {
+    try {
+      const content = await fs.promises.readFile(fileFor(conversationId), 'utf8');
+      return JSON.parse(content) as CoreMessage[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw new Error(`Failed to read conversation ${conversationId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  function enqueue(conversationId: string, write: () => Promise<void>) {
+    const next = (pendingWrites.get(conversationId) ?? Promise.resolve()).then(write);
+    pendingWrites.set(conversationId, next.catch(() => undefined));
+    return next;
+  }
+
+  return {
+    async load(conversationId) {
+      await pendingWrites.get(conversationId);
+      return read(conversationId);
+    },
+
+    append(conversationId, messages) {
+      return enqueue(conversationId, async () => {
+        const history = await read(conversationId);
+        await fs.promises.mkdir(directory, { recursive: true });
+        await fs.promises.writeFile(fileFor(conversationId), JSON.stringify([...history, ...messages], null, 2));
+      });
+    },
+
+    clear(conversationId) {
+      return enqueue(conversationId, () => fs.promises.rm(fileFor(conversationId), { force: true }));
+    }
+  };
+}
@@ -0,0 +1,66 @@
+import type { CoreMessage } from 'ai';
+import type { Database } from 'better-sqlite3';
+import type { MemoryStore } from './types';
+
+export interface SqliteStoreOptions {
+  filename: string;      // Database file, or ':memory:'
+  tableName?: string;    // Defaults to 'agent_messages'
+}
+
+/**
+ * Stores messages as rows in a SQLite table, one row per message.
+ * better-sqlite3 is loaded on first use so it is only required when this store is used.
+ */
+export function createSqliteStore({ filename, tableName = 'agent_messages' }: SqliteStoreOptions): MemoryStore {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+    throw new Error(`Invalid SQLite table name: ${tableName}`);
+  }
+
+  let database: Promise<Database> | undefined;
+
+  function getDatabase() {
+    database ??= import('better-sqlite3').then(({ default: BetterSqlite3 }) => {
+      const db = new BetterSqlite3(filename);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ${tableName} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          conversation_id TEXT NOT NULL,
+          message TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS ${tableName}_conversation ON ${tableName} (conversation_id, id);
+      `);
+      return db;
+    });
+    return database;
+  }
+
+  return {
+    async load(conversationId) {
+      const db = await getDatabase();
+      const rows = db
+        .prepare(`SELECT message FROM ${tableName} WHERE conversation_id = ? ORDER BY id`)
+        .all(conversationId) as { message: string }[];
+      return rows.map(row => JSON.parse(row.message) as CoreMessage);
+    },
+
+    async append(conversationId, messages) {
+      const db = await getDatabase();
+      const insert = db.prepare(
+        `INSERT INTO ${tableName} (conversation_id, message, created_at) VALUES (?, ?, ?)`
+      );
+      const insertAll = db.transaction((items: CoreMessage[]) => {
+        const createdAt = new Date().toISOString();
+        for (const message of items) {
+          insert.run(conversationId, JSON.stringify(message), createdAt);
+        }
+      });
+      insertAll(messages);
+    },
+
+    async clear(conversationId) {
+      const db = await getDatabase();
+      db.prepare(`DELETE FROM ${tableName} WHERE conversation_id = ?`).run(conversationId);
+    }
+  };
+}
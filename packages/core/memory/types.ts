@@ -0,0 +1,11 @@
+import type { CoreMessage } from 'ai';
+
+/**
+ * Persists conversation history between agent runs.
+ * Conversations are keyed by a conversation id, or the user id from the ToolContext.
+ */
+export interface MemoryStore {
+  load: (conversationId: string) => Promise<CoreMessage[]>;
+  append: (conversationId: string, messages: CoreMessage[]) => Promise<void>;
+  clear: (conversationId: string) => Promise<void>;
+}
@@ -0,0 +1,120 @@
+import { APICallError, LoadAPIKeyError } from 'ai';
+import type { LanguageModelV1, LanguageModelV1StreamPart, ProviderMetadata } from 'ai';
+import type { Logger } from '../agents/types';
+
+// Joins the model ids of a chain; getContextWindow splits on it to find the smallest window
+export const FALLBACK_MODEL_ID_SEPARATOR = ' > ';
+
+export interface FallbackModelOptions {
+  shouldFallback?: (error: unknown) => boolean;    // Defaults to isFallbackError
+  onFallback?: (info: { from: string; to: string; error: unknown }) => void;
+  logger?: Logger;                                 // Warns about failovers, and about models getModel leaves out
+}
+
+// Recorded in the provider metadata of every response under `fallback`
+export type FallbackMetadata = {
+  provider: string;
+  modelId: string;
+  failed: { provider: string; modelId: string; message: string }[];
+};
+
+const describe = (model: LanguageModelV1) => `${model.provider}:${model.modelId}`;
+
+/**
+ * Errors worth trying another provider for: rate limits, overloaded or failing servers,
+ * rejected credentials and network failures. Aborts and invalid requests are not.
+ */
+export function isFallbackError(error: unknown): boolean {
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable || error.statusCode === 401 || error.statusCode === 403;
+  }
+  if (LoadAPIKeyError.isInstance(error)) {
+    return true;
+  }
+  // fetch reports connection failures as TypeErrors
+  return error instanceof TypeError;
+}
+
+/**
+ * Reads the fallback details from a step's provider metadata, if it came from a fallback model
+ */
+export function getFallbackMetadata(providerMetadata: ProviderMetadata | undefined): FallbackMetadata | undefined {
+  return providerMetadata?.fallback as FallbackMetadata | undefined;
+}
+
+/**
+ * Creates a model that sends each call to the first model in the chain and moves on to
+ * the next one when a call fails with a fallback error. Streams fall back only when the
+ * stream cannot be opened; errors after the first chunk are passed through.
+ */
+export function createFallbackModel(models: LanguageModelV1[], options: FallbackModelOptions = {}): LanguageModelV1 {
+  if (models.length === 0) {
+    throw new Error('A fallback model needs at least one model');
+  }
+
+  const [primary] = models;
+  const shouldFallback = options.shouldFallback ?? isFallbackError;
+
+  async function callChain<T>(call: (model: LanguageModelV1) => PromiseLike<T>) {
+    const failed: FallbackMetadata['failed'] = [];
+
+    for (let index = 0; ; index++) {
+      const model = models[index];
+      try {
+        const result = await call(model);
+        const metadata: FallbackMetadata = { provider: model.provider, modelId: model.modelId, failed };
+        return { result, model, metadata };
+      } catch (error) {
+        const next = models[index + 1];
+        if (!next || !shouldFallback(error)) {
+          throw error;
+        }
+        failed.push({
+          provider: model.provider,
+          modelId: model.modelId,
+          message: error instanceof Error ? error.message : String(error)
+        });
+        options.logger?.warn(`Model ${describe(model)} failed, falling back to ${describe(next)}`, {
+          error: failed[failed.length - 1].message
+        });
+        options.onFallback?.({ from: describe(model), to: describe(next), error });
+      }
+    }
+  }
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'fallback',
+    modelId: models.map(model => model.modelId).join(FALLBACK_MODEL_ID_SEPARATOR),
+    defaultObjectGenerationMode: primary.defaultObjectGenerationMode,
+    supportsImageUrls: models.every(model => model.supportsImageUrls !== false),
+    supportsStructuredOutputs: models.every(model => model.supportsStructuredOutputs),
+
+    async doGenerate(callOptions) {
+      const { result, model, metadata } = await callChain(model => model.doGenerate(callOptions));
+      return {
+        ...result,
+        response: { ...result.response, modelId: result.response?.modelId ?? model.modelId },
+        providerMetadata: { ...result.providerMetadata, fallback: metadata }
+      };
+    },
+
+    async doStream(callOptions) {
+      const { result, metadata } = await callChain(model => model.doStream(callOptions));
+      return {
+        ...result,
+        stream: result.stream.pipeThrough(
+          new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+            transform(part, controller) {
+              controller.enqueue(
+                part.type === 'finish'
+                  ? { ...part, providerMetadata: { ...part.providerMetadata, fallback: metadata } }
+                  : part
+              );
+            }
+          })
+        )
+      };
+    }
+  };
+}
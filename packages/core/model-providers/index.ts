@@ -2,8 +2,12 @@ import { openai } from "@ai-sdk/openai";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { anthropic } from "@ai-sdk/anthropic";
 import { ollama, createOllama } from "ollama-ai-provider";
+import type { LanguageModel, LanguageModelV1 } from "ai";
 import type { ModelProvider, ModelConfig } from './model-configs';
 import { modelConfigs } from './model-configs';
+import { createFallbackModel } from './fallback-model';
+import { getMockModel } from './mock-model';
+import type { FallbackModelOptions } from './fallback-model';
 
 export function getOperationalModels(): ModelConfig[] {
   return modelConfigs.filter(config => {
@@ -22,7 +26,21 @@ export function getOperationalModels(): ModelConfig[] {
   });
 }
 
-export function getModel(specifiedModel?: string) {
+/**
+ * Returns a model by "provider:model" name, or the default model when none is given.
+ * An array builds a fallback chain of the operational models in it, tried in order.
+ * "mock:<id>" returns the scripted model registered with registerMockModel.
+ */
+export function getModel(specifiedModel?: string | string[], fallbackOptions?: FallbackModelOptions): LanguageModelV1 {
+  if (Array.isArray(specifiedModel)) {
+    return getFallbackModel(specifiedModel, fallbackOptions);
+  }
+
+  // Mock models need no credentials, and are only used when asked for by name
+  if (specifiedModel === 'mock' || specifiedModel?.startsWith('mock:')) {
+    return getMockModel(specifiedModel.split(':')[1]);
+  }
+
   const operationalModels = getOperationalModels();
 
   if (operationalModels.length === 0) {
@@ -36,9 +54,9 @@ export function getModel(specifiedModel?: string) {
     // Split model string in case it's in format "provider:model"
     const [providerName, modelName] = specifiedModel.split(':');
     
-    // Find config for the specified provider
+    // Find config for the specified provider, or the provider that lists a bare model id
     const foundConfig = operationalModels.find(config => 
-      config.provider === providerName || config.models.includes(specifiedModel)
+      config.provider === providerName || config.models.some(model => model.id === specifiedModel)
     );
     
     if (!foundConfig) {
@@ -47,20 +65,21 @@ export function getModel(specifiedModel?: string) {
 
     selectedConfig = foundConfig;
     
-    // If a specific model was provided after the colon, use it
-    // Otherwise use the first model for that provider
-    selectedModel = modelName || selectedConfig.models[0];
-    
-    // If just provider name was given (e.g. 'openai'), use first model
-    if (!modelName && providerName === selectedConfig.provider) {
-      selectedModel = selectedConfig.models[0];
+    // Use the model after the colon, the bare model id, or the provider's first model
+    // (e.g. for just 'openai')
+    if (modelName) {
+      selectedModel = modelName;
+    } else if (providerName === selectedConfig.provider) {
+      selectedModel = selectedConfig.models[0].id;
+    } else {
+      selectedModel = specifiedModel;
     }
   } else {
     // Default to Google's gemini-1.5-flash-latest if available, otherwise use the first operational model
     selectedConfig = operationalModels.find(config => 
-      config.provider === 'google' && config.models.includes('gemini-1.5-flash-latest')
+      config.provider === 'google' && config.models.some(model => model.id === 'gemini-1.5-flash-latest')
     ) || operationalModels[0];
-    selectedModel = selectedConfig.provider === 'google' ? 'gemini-1.5-flash-latest' : selectedConfig.models[0];
+    selectedModel = selectedConfig.provider === 'google' ? 'gemini-1.5-flash-latest' : selectedConfig.models[0].id;
   }
 
   switch (selectedConfig.provider) {
@@ -85,4 +104,29 @@ export function getModel(specifiedModel?: string) {
     default:
       throw new Error(`Unsupported model provider: ${selectedConfig.provider}`);
   }
-}
\ No newline at end of file
+}
+
+function getFallbackModel(chain: string[], options: FallbackModelOptions = {}): LanguageModelV1 {
+  const models: LanguageModelV1[] = [];
+  for (const name of chain) {
+    try {
+      models.push(getModel(name));
+    } catch (error) {
+      // Providers without credentials are left out of the chain
+      options.logger?.warn(`Skipping ${name} in fallback chain`, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (models.length === 0) {
+    throw new Error(`None of the models in the fallback chain are operational: ${chain.join(', ')}`);
+  }
+
+  return createFallbackModel(models, options);
+}
+
+/**
+ * Resolves a model reference; strings ("provider:model") and fallback chains are looked up through getModel
+ */
+export function resolveModel(model: LanguageModel | string | string[], fallbackOptions?: FallbackModelOptions): LanguageModel {
+  return typeof model === 'string' || Array.isArray(model) ? getModel(model, fallbackOptions) : model;
+}
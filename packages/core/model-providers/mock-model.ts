@@ -0,0 +1,197 @@
+import type { FinishReason, LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from 'ai';
+
+export interface MockToolCall {
+  toolName: string;
+  args: unknown;
+  toolCallId?: string;                 // Defaults to call-<call>-<index>
+}
+
+/**
+ * One scripted model response. A response with `object` answers structured output
+ * calls (generateObject, routers, outputSchema) in either JSON or tool mode.
+ */
+export interface MockResponse {
+  text?: string;
+  toolCalls?: MockToolCall[];
+  object?: unknown;
+  finishReason?: FinishReason;         // Defaults to 'tool-calls' with tool calls, otherwise 'stop'
+  usage?: { promptTokens: number; completionTokens: number };
+  error?: string;                      // The call fails with this message instead
+  delayMs?: number;
+}
+
+export interface MockCall {
+  index: number;                       // 0 for the first call to the model
+  options: LanguageModelV1CallOptions;
+  lastUserMessage?: string;            // Text of the latest user message, for matching on the input
+}
+
+export type MockScript = MockResponse[] | ((call: MockCall) => MockResponse);
+
+export interface MockModelOptions {
+  modelId?: string;
+  responses?: MockScript;              // Defaults to echoing the last user message
+  onExhausted?: 'repeat-last' | 'error'; // When a scripted list runs out (default 'error')
+}
+
+export interface MockModel extends LanguageModelV1 {
+  calls: MockCall[];                   // Every call made so far, for assertions
+}
+
+const DEFAULT_USAGE = { promptTokens: 10, completionTokens: 10 };
+
+function lastUserMessage(options: LanguageModelV1CallOptions): string | undefined {
+  const message = [...options.prompt].reverse().find(entry => entry.role === 'user');
+  if (!message || message.role !== 'user') return undefined;
+  return message.content.flatMap(part => (part.type === 'text' ? [part.text] : [])).join('\n');
+}
+
+// Waits like a slow provider, and stops waiting when the call is aborted
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Creates a model that answers from a script instead of a provider, so agents,
+ * routers and workflows can be tested offline and deterministically.
+ * Scripts are either a list of responses, one per call, or a function of the call.
+ *
+ * Example usage:
+ * ```typescript
+ * const model = createMockModel({
+ *   responses: [
+ *     { toolCalls: [{ toolName: 'getWeather', args: { city: 'London' } }] },
+ *     { text: 'It is sunny in London' }
+ *   ]
+ * });
+ * const agent = createAgent({ name: 'weather-agent', model, tools: { getWeather } });
+ * ```
+ */
+export function createMockModel(options: MockModelOptions = {}): MockModel {
+  const { modelId = 'mock', responses, onExhausted = 'error' } = options;
+  const calls: MockCall[] = [];
+
+  async function respond(callOptions: LanguageModelV1CallOptions) {
+    // An aborted call fails like a provider call would, without using up a scripted response
+    callOptions.abortSignal?.throwIfAborted();
+    const call: MockCall = { index: calls.length, options: callOptions, lastUserMessage: lastUserMessage(callOptions) };
+    calls.push(call);
+
+    let response: MockResponse;
+    if (typeof responses === 'function') {
+      response = responses(call);
+    } else if (responses) {
+      const scripted = responses[call.index] ?? (onExhausted === 'repeat-last' ? responses[responses.length - 1] : undefined);
+      if (!scripted) {
+        throw new Error(`Mock model ${modelId} has no response for call ${call.index + 1}; it was scripted with ${responses.length}`);
+      }
+      response = scripted;
+    } else {
+      response = { text: `Mock response to: ${call.lastUserMessage ?? ''}` };
+    }
+
+    if (response.delayMs) {
+      await delay(response.delayMs, callOptions.abortSignal);
+    }
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    // Structured output arrives as JSON text, or as the call of the tool generateObject provides
+    const { mode } = callOptions;
+    let text = response.text;
+    let toolCalls = (response.toolCalls ?? []).map((toolCall, index) => ({
+      toolCallType: 'function' as const,
+      toolCallId: toolCall.toolCallId ?? `call-${call.index + 1}-${index + 1}`,
+      toolName: toolCall.toolName,
+      args: typeof toolCall.args === 'string' ? toolCall.args : JSON.stringify(toolCall.args)
+    }));
+    if (response.object !== undefined) {
+      if (mode.type === 'object-tool') {
+        toolCalls = [{ toolCallType: 'function', toolCallId: `call-${call.index + 1}-object`, toolName: mode.tool.name, args: JSON.stringify(response.object) }];
+      } else {
+        text = JSON.stringify(response.object);
+      }
+    }
+
+    return {
+      text,
+      toolCalls,
+      finishReason: response.finishReason ?? (toolCalls.length > 0 && mode.type === 'regular' ? 'tool-calls' : 'stop'),
+      usage: response.usage ?? DEFAULT_USAGE,
+      response: { id: `mock-${call.index + 1}`, modelId, timestamp: new Date(0) }
+    };
+  }
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId,
+    defaultObjectGenerationMode: 'json',
+    supportsImageUrls: false,
+    supportsStructuredOutputs: false,
+    calls,
+
+    async doGenerate(callOptions) {
+      const { response, ...result } = await respond(callOptions);
+      return {
+        ...result,
+        response,
+        rawCall: { rawPrompt: callOptions.prompt, rawSettings: {} }
+      };
+    },
+
+    // Streams the text word by word, then the tool calls
+    async doStream(callOptions) {
+      const { text, toolCalls, finishReason, usage, response } = await respond(callOptions);
+      const parts: LanguageModelV1StreamPart[] = [
+        { type: 'response-metadata', ...response },
+        ...(text ?? '').split(/(?<= )/).filter(Boolean).map(textDelta => ({ type: 'text-delta' as const, textDelta })),
+        ...toolCalls.map(toolCall => ({ type: 'tool-call' as const, ...toolCall })),
+        { type: 'finish', finishReason, usage }
+      ];
+
+      return {
+        stream: new ReadableStream<LanguageModelV1StreamPart>({
+          start(controller) {
+            parts.forEach(part => controller.enqueue(part));
+            controller.close();
+          }
+        }),
+        rawCall: { rawPrompt: callOptions.prompt, rawSettings: {} }
+      };
+    }
+  };
+}
+
+// Models resolved by name, e.g. getModel('mock:weather'); a script continues across runs
+const registeredModels = new Map<string, MockModel>();
+
+/**
+ * Registers the script that `getModel('mock:<modelId>')` answers with, replacing any
+ * earlier one. Returns the model, whose `calls` can be checked after the runs.
+ */
+export function registerMockModel(
+  modelId: string,
+  responses: MockScript,
+  options: Omit<MockModelOptions, 'modelId' | 'responses'> = {}
+): MockModel {
+  const model = createMockModel({ ...options, modelId, responses });
+  registeredModels.set(modelId, model);
+  return model;
+}
+
+// Unregistered ids echo the last user message
+export function getMockModel(modelId = 'mock'): MockModel {
+  return registeredModels.get(modelId) ?? createMockModel({ modelId });
+}
@@ -1,13 +1,233 @@
+import * as fs from 'node:fs';
+import type { ProviderMetadata } from 'ai';
+import { FALLBACK_MODEL_ID_SEPARATOR, getFallbackMetadata } from './fallback-model';
+
 export type ModelProvider = 'ollama' | 'openai' | 'google' | 'anthropic';
 
+export interface ModelPricing {
+  inputPerMillion: number;                  // USD per 1M prompt tokens
+  outputPerMillion: number;                 // USD per 1M completion tokens
+}
+
+export interface ModelInfo {
+  id: string;
+  contextWindow: number;                    // Max input tokens
+  maxOutputTokens: number;
+  toolCalling: boolean;
+  structuredOutput: boolean;                // Native JSON schema output
+  vision: boolean;                          // Accepts image inputs
+  pricing?: ModelPricing;                   // Unset when unknown; zero for local models
+}
+
 export interface ModelConfig {
   provider: ModelProvider;
-  models: string[];
+  models: ModelInfo[];                      // The first model is the provider's default
+}
+
+// Registry file entries: known models may override single fields, new models must be complete
+export interface ModelConfigOverride {
+  provider: ModelProvider;
+  models: (Partial<ModelInfo> & { id: string })[];
 }
 
 export const modelConfigs: ModelConfig[] = [
-  { provider: 'google', models: ['gemini-1.5-flash-latest', 'gemini-1.5-pro-latest'] },
-  { provider: 'openai', models: ['gpt-4o-mini', 'gpt-4o'] },
-  { provider: 'ollama', models: ['llama3.2'] },
-  { provider: 'anthropic', models: ['claude-3-sonnet-20240229', 'claude-3-opus-20240229'] },
-]; 
\ No newline at end of file
+  {
+    provider: 'google',
+    models: [
+      {
+        id: 'gemini-1.5-flash-latest',
+        contextWindow: 1_048_576,
+        maxOutputTokens: 8_192,
+        toolCalling: true,
+        structuredOutput: true,
+        vision: true,
+        pricing: { inputPerMillion: 0.075, outputPerMillion: 0.3 }
+      },
+      {
+        id: 'gemini-1.5-pro-latest',
+        contextWindow: 2_097_152,
+        maxOutputTokens: 8_192,
+        toolCalling: true,
+        structuredOutput: true,
+        vision: true,
+        pricing: { inputPerMillion: 1.25, outputPerMillion: 5 }
+      },
+      {
+        id: 'gemini-2.0-flash',
+        contextWindow: 1_048_576,
+        maxOutputTokens: 8_192,
+        toolCalling: true,
+        structuredOutput: true,
+        vision: true,
+        pricing: { inputPerMillion: 0.1, outputPerMillion: 0.4 }
+      }
+    ]
+  },
+  {
+    provider: 'openai',
+    models: [
+      {
+        id: 'gpt-4o-mini',
+        contextWindow: 128_000,
+        maxOutputTokens: 16_384,
+        toolCalling: true,
+        structuredOutput: true,
+        vision: true,
+        pricing: { inputPerMillion: 0.15, outputPerMillion: 0.6 }
+      },
+      {
+        id: 'gpt-4o',
+        contextWindow: 128_000,
+        maxOutputTokens: 16_384,
+        toolCalling: true,
+        structuredOutput: true,
+        vision: true,
+        pricing: { inputPerMillion: 2.5, outputPerMillion: 10 }
+      },
+      {
+        id: 'gpt-4-turbo-preview',
+        contextWindow: 128_000,
+        maxOutputTokens: 4_096,
+        toolCalling: true,
+        structuredOutput: false,
+        vision: false,
+        pricing: { inputPerMillion: 10, outputPerMillion: 30 }
+      }
+    ]
+  },
+  {
+    provider: 'ollama',
+    models: [
+      {
+        id: 'llama3.2',
+        contextWindow: 128_000,
+        maxOutputTokens: 2_048,
+        toolCalling: true,
+        structuredOutput: false,
+        vision: false,
+        pricing: { inputPerMillion: 0, outputPerMillion: 0 }
+      }
+    ]
+  },
+  {
+    provider: 'anthropic',
+    models: [
+      {
+        id: 'claude-3-5-sonnet-latest',
+        contextWindow: 200_000,
+        maxOutputTokens: 8_192,
+        toolCalling: true,
+        structuredOutput: false,
+        vision: true,
+        pricing: { inputPerMillion: 3, outputPerMillion: 15 }
+      },
+      {
+        id: 'claude-3-5-haiku-latest',
+        contextWindow: 200_000,
+        maxOutputTokens: 8_192,
+        toolCalling: true,
+        structuredOutput: false,
+        vision: false,
+        pricing: { inputPerMillion: 0.8, outputPerMillion: 4 }
+      },
+      {
+        id: 'claude-3-opus-20240229',
+        contextWindow: 200_000,
+        maxOutputTokens: 4_096,
+        toolCalling: true,
+        structuredOutput: false,
+        vision: true,
+        pricing: { inputPerMillion: 15, outputPerMillion: 75 }
+      }
+    ]
+  },
+];
+
+const REQUIRED_FIELDS = ['contextWindow', 'maxOutputTokens', 'toolCalling', 'structuredOutput', 'vision'] as const;
+
+/**
+ * Adds models to the registry or overrides fields of known ones
+ */
+export function registerModels(overrides: ModelConfigOverride[]): void {
+  for (const override of overrides) {
+    let config = modelConfigs.find(entry => entry.provider === override.provider);
+    if (!config) {
+      config = { provider: override.provider, models: [] };
+      modelConfigs.push(config);
+    }
+
+    for (const model of override.models) {
+      const existing = config.models.find(entry => entry.id === model.id);
+      if (existing) {
+        Object.assign(existing, model);
+        continue;
+      }
+
+      const missing = REQUIRED_FIELDS.filter(field => model[field] === undefined);
+      if (missing.length > 0) {
+        throw new Error(`Model ${override.provider}:${model.id} is missing ${missing.join(', ')}`);
+      }
+      config.models.push(model as ModelInfo);
+    }
+  }
+}
+
+/**
+ * Loads registry overrides from a JSON file containing an array of ModelConfigOverride
+ */
+export function loadModelRegistry(filePath: string): void {
+  const overrides = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (!Array.isArray(overrides)) {
+    throw new Error(`Model registry file ${filePath} must contain an array of provider entries`);
+  }
+  registerModels(overrides);
+}
+
+/**
+ * Looks up a model by id, or by "provider:model"
+ */
+export function getModelInfo(modelId: string): ModelInfo | undefined {
+  const [provider, id] = modelId.includes(':') ? modelId.split(':') : [undefined, modelId];
+  for (const config of modelConfigs) {
+    if (provider && config.provider !== provider) continue;
+    const model = config.models.find(entry => entry.id === id);
+    if (model) return model;
+  }
+  return undefined;
+}
+
+/**
+ * Looks up the context window of a model id, if it is known.
+ * Fallback chains ("a > b") get the smallest window of their models.
+ */
+export function getContextWindow(modelId: string): number | undefined {
+  const windows = modelId.split(FALLBACK_MODEL_ID_SEPARATOR).map(id => getModelInfo(id)?.contextWindow);
+  return windows.includes(undefined) ? undefined : Math.min(...(windows as number[]));
+}
+
+/**
+ * The model id a call is priced by. Providers answer with dated ids such as
+ * gpt-4o-mini-2024-07-18, so the response's id is only used when the registry knows it;
+ * otherwise the configured id, or the id of the fallback model that answered.
+ */
+export function getBilledModelId(
+  configuredModelId: string,
+  responseModelId?: string,
+  providerMetadata?: ProviderMetadata
+): string {
+  if (responseModelId && getModelInfo(responseModelId)) return responseModelId;
+  return getFallbackMetadata(providerMetadata)?.modelId ?? configuredModelId;
+}
+
+/**
+ * Computes the cost of a call in USD, or undefined when the model has no pricing
+ */
+export function calculateCost(
+  modelId: string,
+  usage: { promptTokens: number; completionTokens: number }
+): number | undefined {
+  const pricing = getModelInfo(modelId)?.pricing;
+  if (!pricing) return undefined;
+
+  return (usage.promptTokens * pricing.inputPerMillion + usage.completionTokens * pricing.outputPerMillion) / 1_000_000;
+}
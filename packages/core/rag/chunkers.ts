@@ -0,0 +1,140 @@
+import type { Chunk, Chunker, ChunkerOptions, RagDocument } from './types';
+
+const DEFAULT_CHUNK_SIZE = 1000;
+const DEFAULT_CHUNK_OVERLAP = 150;
+
+const isSpace = (char: string | undefined) => char !== undefined && /\s/.test(char);
+
+// Offsets where each line starts, to map character ranges back to line numbers
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '\n') starts.push(index + 1);
+  }
+  return starts;
+}
+
+function lineAt(starts: number[], offset: number): number {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (starts[middle] <= offset) low = middle;
+    else high = middle - 1;
+  }
+  return low + 1;
+}
+
+// The last paragraph, line, sentence or word break in the second half of the window
+function findBreak(text: string, from: number, to: number): number {
+  const minimum = from + Math.floor((to - from) / 2);
+  const window = text.slice(minimum, to);
+  for (const separator of ['\n\n', '\n']) {
+    const index = window.lastIndexOf(separator);
+    if (index !== -1) return minimum + index + separator.length;
+  }
+  let sentenceEnd = -1;
+  for (const match of window.matchAll(/[.!?]["')\]]?\s/g)) sentenceEnd = match.index! + match[0].length;
+  if (sentenceEnd !== -1) return minimum + sentenceEnd;
+  const space = window.lastIndexOf(' ');
+  return space !== -1 ? minimum + space + 1 : to;
+}
+
+/**
+ * Splits text[start, end) into ranges of at most `chunkSize` characters, breaking at
+ * the largest boundary available. Each range after the first starts up to `overlap`
+ * characters before the end of the previous one, at a word boundary.
+ */
+function splitRange(text: string, start: number, end: number, chunkSize: number, overlap: number): [number, number][] {
+  const ranges: [number, number][] = [];
+  const skipSpace = (offset: number) => {
+    while (offset < end && isSpace(text[offset])) offset++;
+    return offset;
+  };
+
+  let position = skipSpace(start);
+  while (position < end) {
+    const stop = position + chunkSize >= end ? end : findBreak(text, position, position + chunkSize);
+    let trimmed = stop;
+    while (trimmed > position && isSpace(text[trimmed - 1])) trimmed--;
+    if (trimmed > position) ranges.push([position, trimmed]);
+    if (stop >= end) break;
+
+    let next = Math.max(stop - overlap, position + 1);
+    while (next < stop && !isSpace(text[next - 1])) next++;
+    position = skipSpace(next);
+  }
+  return ranges;
+}
+
+function toChunks(document: RagDocument, ranges: { start: number; end: number; heading?: string }[]): Chunk[] {
+  const starts = lineStarts(document.text);
+  return ranges.map(({ start, end, heading }, index) => ({
+    id: `${document.id}:${index}`,
+    documentId: document.id,
+    text: document.text.slice(start, end),
+    startLine: lineAt(starts, start),
+    endLine: lineAt(starts, end - 1),
+    metadata: { ...document.metadata, ...(heading && { heading }) }
+  }));
+}
+
+function resolveOptions({ chunkSize = DEFAULT_CHUNK_SIZE, chunkOverlap = DEFAULT_CHUNK_OVERLAP }: ChunkerOptions) {
+  if (chunkSize <= 0) throw new Error('chunkSize must be positive');
+  if (chunkOverlap < 0 || chunkOverlap >= chunkSize) throw new Error('chunkOverlap must be at least 0 and less than chunkSize');
+  return { chunkSize, chunkOverlap };
+}
+
+// Splits at paragraph, line, sentence and word breaks, in that order of preference
+export function createTextChunker(options: ChunkerOptions = {}): Chunker {
+  const { chunkSize, chunkOverlap } = resolveOptions(options);
+  return (document) => toChunks(
+    document,
+    splitRange(document.text, 0, document.text.length, chunkSize, chunkOverlap).map(([start, end]) => ({ start, end }))
+  );
+}
+
+/**
+ * Splits Markdown into sections at its headings, then sections longer than `chunkSize`
+ * like text. Chunks never span two sections, and carry the heading path, such as
+ * "Pricing > Discounts", as `metadata.heading`. Headings inside code fences are ignored.
+ */
+export function createMarkdownChunker(options: ChunkerOptions = {}): Chunker {
+  const { chunkSize, chunkOverlap } = resolveOptions(options);
+
+  return (document) => {
+    const { text } = document;
+    const sections: { start: number; bodyStart: number; headings: string[] }[] = [{ start: 0, bodyStart: 0, headings: [] }];
+    const headings: string[] = [];
+    let inFence = false;
+    let offset = 0;
+
+    for (const line of text.split('\n')) {
+      if (/^\s*(?:```|~~~)/.test(line)) inFence = !inFence;
+      const heading = !inFence && line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+      if (heading) {
+        const level = heading[1].length;
+        // A heading replaces those at its level and below; skipped levels (# then ###) leave no gap
+        headings.splice(level - 1, headings.length, heading[2]);
+        sections.push({ start: offset, bodyStart: offset + line.length + 1, headings: headings.filter(Boolean) });
+      }
+      offset += line.length + 1;
+    }
+
+    const ranges = sections.flatMap((section, index) => {
+      const end = Math.min(sections[index + 1]?.start ?? text.length, text.length);
+      // A heading directly followed by another has nothing of its own to index
+      if (!text.slice(Math.min(section.bodyStart, end), end).trim()) return [];
+      const heading = section.headings.join(' > ') || undefined;
+      return splitRange(text, section.start, end, chunkSize, chunkOverlap).map(([start, rangeEnd]) => ({ start, end: rangeEnd, heading }));
+    });
+    return toChunks(document, ranges);
+  };
+}
+
+// Markdown documents are split at their headings, everything else as text
+export function createDefaultChunker(options: ChunkerOptions = {}): Chunker {
+  const markdown = createMarkdownChunker(options);
+  const plain = createTextChunker(options);
+  return (document) => (document.metadata.format === 'markdown' ? markdown : plain)(document);
+}
@@ -0,0 +1,116 @@
+import { embedMany } from 'ai';
+import type { EmbeddingModel } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOllama } from 'ollama-ai-provider';
+import { tokenize } from '../tools/local-research/document-index';
+import type { Embedder } from './types';
+
+const DEFAULT_LOCAL_DIMENSIONS = 512;
+
+// Used for "provider" without a model, and for the provider picked when no name is given
+const DEFAULT_EMBEDDING_MODELS: Record<string, string> = {
+  openai: 'text-embedding-3-small',
+  google: 'text-embedding-004',
+  ollama: 'nomic-embed-text'
+};
+
+// FNV-1a, so the same word always lands on the same dimension
+function hash(value: string): number {
+  let result = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    result ^= value.charCodeAt(index);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+/**
+ * A deterministic embedder that needs no model or network: words and word pairs are
+ * hashed into a fixed number of dimensions. It matches on shared vocabulary rather
+ * than meaning, which suits tests, offline runs and small keyword-heavy corpora.
+ */
+export function createHashEmbedder(options: { dimensions?: number } = {}): Embedder {
+  const { dimensions = DEFAULT_LOCAL_DIMENSIONS } = options;
+  if (!Number.isInteger(dimensions) || dimensions <= 0) {
+    throw new Error(`Embedding dimensions must be a positive integer, got ${dimensions}`);
+  }
+  return {
+    id: `local:${dimensions}`,
+    async embed(texts) {
+      return texts.map(text => {
+        const vector = new Array<number>(dimensions).fill(0);
+        const terms = tokenize(text);
+        const features = [
+          ...terms.map(term => ({ feature: term, weight: 1 })),
+          ...terms.slice(1).map((term, index) => ({ feature: `${terms[index]} ${term}`, weight: 0.5 }))
+        ];
+        for (const { feature, weight } of features) {
+          const value = hash(feature);
+          // The top bit picks the sign, so collisions tend to cancel out
+          vector[value % dimensions] += value & 0x80000000 ? -weight : weight;
+        }
+        const norm = Math.sqrt(vector.reduce((total, component) => total + component * component, 0));
+        return norm === 0 ? vector : vector.map(component => component / norm);
+      });
+    }
+  };
+}
+
+// Wraps any AI SDK embedding model; embedMany splits large inputs into the calls the provider allows
+export function createModelEmbedder(model: EmbeddingModel<string>, options: { id?: string } = {}): Embedder {
+  return {
+    id: options.id ?? `${model.provider.split('.')[0]}:${model.modelId}`,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+      const { embeddings } = await embedMany({ model, values: texts });
+      return embeddings;
+    }
+  };
+}
+
+function hasCredentials(provider: string): boolean {
+  switch (provider) {
+    case 'openai':
+      return !!process.env.OPENAI_API_KEY;
+    case 'google':
+      return !!process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+    case 'ollama':
+      return !!process.env.OLLAMA_BASE_URL;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Returns an embedder by "provider:model" name, like getModel does for language models.
+ * "local" or "local:<dimensions>" is the hash embedder. Without a name, the first
+ * provider with credentials (OpenAI, Google, then Ollama) is used, or the local
+ * embedder when there is none.
+ */
+export function getEmbedder(name?: string): Embedder {
+  if (!name) {
+    const provider = Object.keys(DEFAULT_EMBEDDING_MODELS).find(hasCredentials);
+    return provider ? getEmbedder(provider) : createHashEmbedder();
+  }
+
+  const [provider, ...rest] = name.split(':');
+  const modelId = rest.join(':') || DEFAULT_EMBEDDING_MODELS[provider];
+
+  switch (provider) {
+    case 'local':
+      return createHashEmbedder({ dimensions: rest.length > 0 ? Number(modelId) : undefined });
+    case 'openai':
+      return createModelEmbedder(openai.embedding(modelId), { id: `openai:${modelId}` });
+    case 'google': {
+      const googleAI = createGoogleGenerativeAI({ apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY || '' });
+      return createModelEmbedder(googleAI.textEmbeddingModel(modelId), { id: `google:${modelId}` });
+    }
+    case 'ollama': {
+      const ollamaClient = createOllama({ baseURL: process.env.OLLAMA_BASE_URL || 'http://localhost:11434/api' });
+      return createModelEmbedder(ollamaClient.embedding(modelId), { id: `ollama:${modelId}` });
+    }
+    default:
+      throw new Error(`Unsupported embedding provider: ${provider}`);
+  }
+}
@@ -0,0 +1,26 @@
+export type {
+  Chunk,
+  Chunker,
+  ChunkerOptions,
+  Embedder,
+  KnowledgeBase,
+  Metadata,
+  MetadataCondition,
+  MetadataFilter,
+  RagDocument,
+  RetrievedChunk,
+  VectorMatch,
+  VectorQuery,
+  VectorRecord,
+  VectorStore
+} from './types';
+export { loadDirectory, loadFile, parseJson, parseMarkdown, parseText } from './loaders';
+export type { LoadOptions } from './loaders';
+export { createDefaultChunker, createMarkdownChunker, createTextChunker } from './chunkers';
+export { createHashEmbedder, createModelEmbedder, getEmbedder } from './embeddings';
+export { cosineSimilarity, createInMemoryVectorStore, createJsonFileVectorStore, matchesFilter } from './vector-store';
+export type { JsonFileVectorStoreOptions } from './vector-store';
+export { createKnowledgeBase } from './knowledge-base';
+export type { KnowledgeBaseOptions } from './knowledge-base';
+export { createRetrieveTool } from './retrieve-tool';
+export type { RetrieveToolOptions } from './retrieve-tool';
@@ -0,0 +1,79 @@
+import { createDefaultChunker } from './chunkers';
+import { getEmbedder } from './embeddings';
+import { createInMemoryVectorStore } from './vector-store';
+import type { Chunk, Chunker, Embedder, KnowledgeBase, VectorRecord, VectorStore } from './types';
+
+export interface KnowledgeBaseOptions {
+  embedder?: Embedder | string;        // An embedder, or a name for getEmbedder (default: getEmbedder())
+  store?: VectorStore;                 // Default in memory
+  chunker?: Chunker;                   // Default: Markdown split at headings, everything else as text
+  batchSize?: number;                  // Chunks embedded per call (default 64)
+}
+
+/**
+ * Chunks, embeds and stores documents, and retrieves the chunks closest to a query.
+ * Every record keeps the chunk's document id, line range and embedder id in its
+ * metadata; queries only consider records from the same embedder.
+ *
+ * Example usage:
+ * ```typescript
+ * const knowledge = createKnowledgeBase({
+ *   embedder: 'openai:text-embedding-3-small',
+ *   store: createJsonFileVectorStore({ file: '.rag/docs.json' })
+ * });
+ * await knowledge.add(await loadDirectory('./docs'));
+ * const chunks = await knowledge.retrieve('How is billing calculated?', { topK: 3 });
+ * ```
+ */
+export function createKnowledgeBase(options: KnowledgeBaseOptions = {}): KnowledgeBase {
+  const embedder = typeof options.embedder === 'object' ? options.embedder : getEmbedder(options.embedder);
+  const store = options.store ?? createInMemoryVectorStore();
+  const chunker = options.chunker ?? createDefaultChunker();
+  const batchSize = options.batchSize ?? 64;
+
+  const toRecord = (chunk: Chunk, vector: number[]): VectorRecord => ({
+    id: chunk.id,
+    vector,
+    text: chunk.text,
+    metadata: {
+      ...chunk.metadata,
+      documentId: chunk.documentId,
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
+      embedder: embedder.id
+    }
+  });
+
+  return {
+    embedder,
+    store,
+
+    async add(documents) {
+      const chunks = documents.flatMap(document => chunker(document).filter(chunk => chunk.text.trim()));
+      // Everything is embedded before anything is replaced, so a failed call leaves the old chunks in place
+      const vectors: number[][] = [];
+      for (let start = 0; start < chunks.length; start += batchSize) {
+        vectors.push(...await embedder.embed(chunks.slice(start, start + batchSize).map(chunk => chunk.text)));
+      }
+
+      // Loaded files are replaced as a whole, so items removed from a JSON file lose their chunks too;
+      // documents without a source are replaced by id
+      const sources = [...new Set(documents.map(document => document.metadata.source))]
+        .filter(source => typeof source === 'string');
+      if (sources.length > 0) await store.deleteWhere({ source: { $in: sources } });
+      await store.deleteWhere({ documentId: { $in: documents.map(document => document.id) } });
+      await store.upsert(chunks.map((chunk, index) => toRecord(chunk, vectors[index])));
+      return { documents: documents.length, chunks: chunks.length };
+    },
+
+    remove(documentIds) {
+      return store.deleteWhere({ documentId: { $in: documentIds } });
+    },
+
+    async retrieve(query, { topK, filter, minScore } = {}) {
+      const [vector] = await embedder.embed([query]);
+      const matches = await store.query(vector, { topK, minScore, filter: { ...filter, embedder: embedder.id } });
+      return matches.map(({ record, score }) => ({ id: record.id, text: record.text, score, metadata: record.metadata }));
+    }
+  };
+}
@@ -0,0 +1,147 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { globToRegExp, toPosixPath, walkWorkspace } from '../tools/workspace/glob';
+import type { Metadata, RagDocument } from './types';
+
+export interface LoadOptions {
+  extensions?: string[];               // Files loadDirectory reads (default .md, .markdown, .txt, .json and .jsonl)
+  textFields?: string[];               // JSON fields joined into the text (default the string fields with more than one word)
+  idField?: string;                    // JSON field that names an item instead of its position
+  metadata?: Metadata;                 // Added to every document
+}
+
+const DEFAULT_EXTENSIONS = ['.md', '.markdown', '.txt', '.json', '.jsonl'];
+const LOADER_IGNORE = ['**/node_modules/**', '**/.git/**'].map(globToRegExp);
+
+const isPrimitive = (value: unknown) => value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+function parseScalar(value: string): unknown {
+  const trimmed = value.trim().replace(/^(['"])(.*)\1$/, '$2');
+  if (/^-?\d+(?:\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  if (/^\[.*\]$/.test(trimmed)) return trimmed.slice(1, -1).split(',').map(item => parseScalar(item)).filter(item => item !== '');
+  return trimmed;
+}
+
+/**
+ * Reads a Markdown document. Simple `key: value` front matter becomes metadata and is
+ * blanked in the text, so line numbers still match the file.
+ */
+export function parseMarkdown(text: string, source: string, options: LoadOptions = {}): RagDocument {
+  const frontMatter: Metadata = {};
+  let body = text.replace(/\r\n/g, '\n');
+  const block = body.match(/^---\n([\s\S]*?)\n---(?:\n|$)/);
+  if (block) {
+    for (const line of block[1].split('\n')) {
+      const field = line.match(/^([\w-]+):\s*(.*)$/);
+      if (field) frontMatter[field[1]] = parseScalar(field[2]);
+    }
+    body = block[0].replace(/[^\n]/g, '') + body.slice(block[0].length);
+  }
+  const title = typeof frontMatter.title === 'string' ? frontMatter.title : body.match(/^#\s+(.+)$/m)?.[1].trim();
+  return {
+    id: source,
+    text: body,
+    metadata: { ...options.metadata, ...frontMatter, source, format: 'markdown', ...(title && { title }) }
+  };
+}
+
+export function parseText(text: string, source: string, options: LoadOptions = {}): RagDocument {
+  return { id: source, text: text.replace(/\r\n/g, '\n'), metadata: { ...options.metadata, source, format: 'text' } };
+}
+
+// Strings are used as they are; objects give their text fields as text and their other plain fields as metadata
+function jsonItemToDocument(item: unknown, source: string, position: number, options: LoadOptions, extra: Metadata = {}): RagDocument {
+  if (typeof item === 'string') {
+    return { id: `${source}#${position}`, text: item, metadata: { ...options.metadata, ...extra, source, format: 'json' } };
+  }
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    throw new Error(`Item ${position} of ${source} is not an object or a string`);
+  }
+  const entries = Object.entries(item as Record<string, unknown>);
+  // By default prose is the text, and single words such as categories or ids stay metadata to filter on
+  const strings = entries.filter(([, value]) => typeof value === 'string') as [string, string][];
+  const prose = strings.filter(([, value]) => /\s/.test(value.trim()));
+  const textFields = options.textFields ?? (prose.length > 0 ? prose : strings).map(([key]) => key);
+  const text = textFields
+    .map(field => (item as Record<string, unknown>)[field])
+    .filter(value => value !== undefined && value !== null)
+    .map(value => typeof value === 'string' ? value : JSON.stringify(value))
+    .join('\n\n');
+  const fields = Object.fromEntries(entries.filter(([key, value]) => !textFields.includes(key) && isPrimitive(value)));
+  const name = options.idField ? (item as Record<string, unknown>)[options.idField] : undefined;
+
+  return {
+    id: `${source}#${name ?? position}`,
+    text,
+    metadata: { ...options.metadata, ...fields, ...extra, source, format: 'json' }
+  };
+}
+
+/**
+ * Reads JSON, or JSONL with `format: 'jsonl'`. An array, or each JSONL line, gives one
+ * document per item; a single object gives one document.
+ */
+export function parseJson(
+  text: string,
+  source: string,
+  options: LoadOptions & { format?: 'json' | 'jsonl' } = {}
+): RagDocument[] {
+  if (options.format === 'jsonl') {
+    return text.split('\n').flatMap((line, index) => {
+      if (!line.trim()) return [];
+      let item: unknown;
+      try {
+        item = JSON.parse(line);
+      } catch (error) {
+        throw new Error(`Invalid JSON on line ${index + 1} of ${source}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return [jsonItemToDocument(item, source, index + 1, options, { line: index + 1 })];
+    });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return Array.isArray(parsed)
+    ? parsed.map((item, index) => jsonItemToDocument(item, source, index, options))
+    : [{ ...jsonItemToDocument(parsed, source, 0, options), id: source }];
+}
+
+/**
+ * Loads a Markdown, text, JSON or JSONL file; other extensions are read as text.
+ * `source` names the documents (default the path as given).
+ */
+export async function loadFile(filePath: string, options: LoadOptions & { source?: string } = {}): Promise<RagDocument[]> {
+  const text = await fs.promises.readFile(filePath, 'utf8');
+  const source = options.source ?? toPosixPath(filePath);
+  const extension = path.extname(filePath).toLowerCase();
+  switch (extension) {
+    case '.md':
+    case '.markdown':
+      return [parseMarkdown(text, source, options)];
+    case '.json':
+    case '.jsonl':
+      return parseJson(text, source, { ...options, format: extension === '.jsonl' ? 'jsonl' : 'json' });
+    default:
+      return [parseText(text, source, options)];
+  }
+}
+
+/**
+ * Loads every file with a matching extension below a directory. Documents are named
+ * by their path relative to the directory; symlinks are not followed.
+ */
+export async function loadDirectory(directory: string, options: LoadOptions = {}): Promise<RagDocument[]> {
+  const root = path.resolve(directory);
+  const extensions = (options.extensions ?? DEFAULT_EXTENSIONS).map(extension => extension.toLowerCase());
+  const documents: RagDocument[] = [];
+  for await (const entry of walkWorkspace(root, root, { ignore: LOADER_IGNORE, recursive: true })) {
+    if (entry.type !== 'file' || !extensions.includes(path.extname(entry.path).toLowerCase())) continue;
+    documents.push(...await loadFile(path.join(root, entry.path), { ...options, source: entry.path }));
+  }
+  return documents;
+}
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import type { AgentTool } from '../agents/types';
+import type { ResearchResult } from '../tools/research-types';
+import type { KnowledgeBase, MetadataFilter, RetrievedChunk } from './types';
+
+export interface RetrieveToolOptions {
+  name?: string;                       // Default 'retrieve'
+  description?: string;
+  topK?: number;                       // Chunks returned when the model does not ask for a number (default 5)
+  minScore?: number;                   // Chunks less similar than this are left out
+  filter?: MetadataFilter;             // Always applied; the model cannot widen it
+}
+
+const retrieveParameters = z.object({
+  query: z.string().describe('What to look up, as a question or a description of the information needed'),
+  topK: z.number().int().min(1).max(20).optional().describe('How many passages to return'),
+  filter: z.record(z.union([z.string(), z.number(), z.boolean()])).optional()
+    .describe('Only return passages whose metadata has these values, e.g. { "source": "pricing.md" }')
+});
+
+// Files are cited by path and line range; JSON items, whose text is not a range of the file, by document id
+function citationOf({ metadata }: RetrievedChunk) {
+  const fromFile = metadata.format !== 'json' && typeof metadata.source === 'string';
+  return {
+    source: String(fromFile ? metadata.source : metadata.documentId),
+    startLine: fromFile && typeof metadata.startLine === 'number' ? metadata.startLine : undefined,
+    endLine: fromFile && typeof metadata.endLine === 'number' ? metadata.endLine : undefined
+  };
+}
+
+function formatChunk(chunk: RetrievedChunk, rank: number) {
+  const { source, startLine, endLine } = citationOf(chunk);
+  const lines = startLine ? `:${startLine}-${endLine}` : '';
+  const context = [chunk.metadata.title, chunk.metadata.heading].filter((part, index, parts) => part && parts.indexOf(part) === index);
+  return `[${rank}] ${source}${lines}${context.length > 0 ? ` (${context.join(' > ')})` : ''}\n${chunk.text}`;
+}
+
+/**
+ * Lets an agent search a knowledge base. The passages come back numbered, with their
+ * source and line range, and the model is asked to cite them as [1], [2], ... The
+ * result has the same `{ data, sources }` shape as the research tools.
+ *
+ * Example usage:
+ * ```typescript
+ * const agent = createAgent({
+ *   name: 'support-agent',
+ *   model: 'openai:gpt-4o',
+ *   tools: { retrieve: createRetrieveTool(knowledge, { filter: { product: 'cloud' } }) }
+ * });
+ * ```
+ */
+export function createRetrieveTool(
+  knowledgeBase: KnowledgeBase,
+  options: RetrieveToolOptions = {}
+): AgentTool<z.infer<typeof retrieveParameters>, ResearchResult> {
+  const { name = 'retrieve', topK: defaultTopK = 5, minScore, filter: fixedFilter } = options;
+  return {
+    name,
+    description: options.description ??
+      'Searches the knowledge base and returns numbered passages with their sources. ' +
+      'Base your answer on them and cite each passage you use by its number, e.g. [1].',
+    parameters: retrieveParameters,
+    // A repeated query in the same run reuses its passages instead of embedding it again
+    cache: { scope: 'run' },
+    execute: async ({ query, topK, filter }) => {
+      const chunks = await knowledgeBase.retrieve(query, {
+        topK: topK ?? defaultTopK,
+        minScore,
+        filter: { ...filter, ...fixedFilter }
+      });
+      if (chunks.length === 0) {
+        return { data: `Nothing in the knowledge base matches "${query}".`, sources: [] };
+      }
+      return {
+        data: chunks.map((chunk, index) => formatChunk(chunk, index + 1)).join('\n\n'),
+        sources: chunks.map(chunk => ({
+          ...citationOf(chunk),
+          id: chunk.id,
+          title: typeof chunk.metadata.title === 'string' ? chunk.metadata.title : undefined,
+          score: Math.round(chunk.score * 1000) / 1000
+        }))
+      };
+    }
+  };
+}
@@ -0,0 +1,92 @@
+export type Metadata = Record<string, unknown>;
+
+// A loaded source, before chunking
+export interface RagDocument {
+  id: string;                          // The file path for loaded files, with '#<index>' for JSON items
+  text: string;
+  metadata: Metadata;                  // source, format and title, plus front matter or JSON fields
+}
+
+export interface Chunk {
+  id: string;                          // <document id>:<chunk index>
+  documentId: string;
+  text: string;
+  startLine: number;                   // 1-based lines of the document text, inclusive
+  endLine: number;
+  metadata: Metadata;                  // The document's metadata, plus heading for Markdown sections
+}
+
+export type Chunker = (document: RagDocument) => Chunk[];
+
+export interface ChunkerOptions {
+  chunkSize?: number;                  // Most characters in a chunk (default 1000)
+  chunkOverlap?: number;               // Characters repeated from the end of the previous chunk (default 150)
+}
+
+/**
+ * Turns texts into vectors. Documents and queries must be embedded by the same
+ * embedder, since vectors from different models cannot be compared.
+ */
+export interface Embedder {
+  id: string;                          // Stored with every vector, e.g. 'openai:text-embedding-3-small'
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+export interface VectorRecord {
+  id: string;
+  vector: number[];
+  text: string;
+  metadata: Metadata;
+}
+
+// Equality on a plain value, or an operator; every key must match
+export type MetadataCondition =
+  | string | number | boolean | null
+  | {
+    $eq?: unknown;
+    $ne?: unknown;
+    $in?: unknown[];
+    $nin?: unknown[];
+    $gt?: number | string;
+    $gte?: number | string;
+    $lt?: number | string;
+    $lte?: number | string;
+    $exists?: boolean;
+  };
+
+export type MetadataFilter = Record<string, MetadataCondition>;
+
+export interface VectorQuery {
+  topK?: number;                       // Default 5
+  filter?: MetadataFilter;
+  minScore?: number;                   // Cosine similarity from -1 to 1
+}
+
+export interface VectorMatch {
+  record: VectorRecord;
+  score: number;
+}
+
+export interface VectorStore {
+  upsert: (records: VectorRecord[]) => Promise<void>;
+  query: (vector: number[], query?: VectorQuery) => Promise<VectorMatch[]>;
+  delete: (ids: string[]) => Promise<void>;
+  deleteWhere: (filter: MetadataFilter) => Promise<number>;  // Returns how many records were removed
+  count: () => Promise<number>;
+}
+
+export interface RetrievedChunk {
+  id: string;
+  text: string;
+  score: number;
+  metadata: Metadata;                  // Includes source, startLine, endLine and heading
+}
+
+export interface KnowledgeBase {
+  embedder: Embedder;
+  store: VectorStore;
+  // Chunks, embeds and stores documents; chunks of an indexed document are replaced
+  add: (documents: RagDocument[]) => Promise<{ documents: number; chunks: number }>;
+  remove: (documentIds: string[]) => Promise<number>;
+  retrieve: (query: string, options?: VectorQuery) => Promise<RetrievedChunk[]>;
+}
@@ -0,0 +1,168 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { MetadataCondition, MetadataFilter, VectorMatch, VectorRecord, VectorStore } from './types';
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < a.length; index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+const isOperator = (condition: MetadataCondition): condition is Exclude<MetadataCondition, string | number | boolean | null> =>
+  typeof condition === 'object' && condition !== null && !Array.isArray(condition);
+
+// Arrays in metadata, such as tags, match when any element does
+function matchesCondition(value: unknown, condition: MetadataCondition): boolean {
+  if (!isOperator(condition)) {
+    return Array.isArray(value) ? value.includes(condition) : value === condition;
+  }
+  const values = Array.isArray(value) ? value : [value];
+  // Ranges compare numbers with numbers and strings with strings, such as ISO dates
+  const compare = (bound: number | string, test: (item: number | string, bound: number | string) => boolean) =>
+    values.some(item => (typeof item === 'number' || typeof item === 'string') && typeof item === typeof bound && test(item, bound));
+  if (condition.$exists !== undefined && (value !== undefined) !== condition.$exists) return false;
+  if ('$eq' in condition && !values.includes(condition.$eq)) return false;
+  if ('$ne' in condition && values.includes(condition.$ne)) return false;
+  if (condition.$in && !values.some(item => condition.$in!.includes(item))) return false;
+  if (condition.$nin && values.some(item => condition.$nin!.includes(item))) return false;
+  if (condition.$gt !== undefined && !compare(condition.$gt, (item, bound) => item > bound)) return false;
+  if (condition.$gte !== undefined && !compare(condition.$gte, (item, bound) => item >= bound)) return false;
+  if (condition.$lt !== undefined && !compare(condition.$lt, (item, bound) => item < bound)) return false;
+  if (condition.$lte !== undefined && !compare(condition.$lte, (item, bound) => item <= bound)) return false;
+  return true;
+}
+
+export function matchesFilter(metadata: Record<string, unknown>, filter: MetadataFilter = {}): boolean {
+  return Object.entries(filter).every(([key, condition]) => matchesCondition(metadata[key], condition));
+}
+
+function createMapStore(records = new Map<string, VectorRecord>()) {
+  const dimensionsOf = () => records.values().next().value?.vector.length as number | undefined;
+  const checkDimensions = (vector: number[], what: string) => {
+    const dimensions = dimensionsOf();
+    if (dimensions !== undefined && vector.length !== dimensions) {
+      throw new Error(`${what} has ${vector.length} dimensions but the store holds ${dimensions}; use the same embedder throughout`);
+    }
+  };
+
+  const store: VectorStore = {
+    async upsert(newRecords) {
+      for (const record of newRecords) {
+        // Replacing the only record may change the dimensions
+        if (!(records.size === 1 && records.has(record.id))) checkDimensions(record.vector, `Record ${record.id}`);
+        records.set(record.id, { ...record, metadata: { ...record.metadata } });
+      }
+    },
+
+    async query(vector, { topK = 5, filter, minScore = -Infinity } = {}) {
+      checkDimensions(vector, 'The query vector');
+      const matches: VectorMatch[] = [];
+      for (const record of records.values()) {
+        if (!matchesFilter(record.metadata, filter)) continue;
+        const score = cosineSimilarity(vector, record.vector);
+        if (score >= minScore) matches.push({ record, score });
+      }
+      return matches.sort((a, b) => b.score - a.score || a.record.id.localeCompare(b.record.id)).slice(0, topK);
+    },
+
+    async delete(ids) {
+      for (const id of ids) records.delete(id);
+    },
+
+    async deleteWhere(filter) {
+      let removed = 0;
+      for (const [id, record] of records) {
+        if (matchesFilter(record.metadata, filter)) {
+          records.delete(id);
+          removed++;
+        }
+      }
+      return removed;
+    },
+
+    async count() {
+      return records.size;
+    }
+  };
+  return { store, records };
+}
+
+/**
+ * Keeps vectors in process memory and searches them by cosine similarity; the index
+ * is lost on restart. Queries scan every record, which is fine up to tens of thousands.
+ */
+export function createInMemoryVectorStore(): VectorStore {
+  return createMapStore().store;
+}
+
+export interface JsonFileVectorStoreOptions {
+  file: string;                        // Created on the first write
+}
+
+/**
+ * An in-memory vector store saved to a JSON file after every change, so an index is
+ * built once and loaded by later processes. The file is replaced atomically.
+ */
+export function createJsonFileVectorStore({ file }: JsonFileVectorStoreOptions): VectorStore {
+  let loaded: Promise<ReturnType<typeof createMapStore>> | undefined;
+  // Changes are saved one after another, so a slow write never overwrites a newer one
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  const load = () => loaded ??= (async () => {
+    try {
+      const { records } = JSON.parse(await fs.promises.readFile(file, 'utf8')) as { records: VectorRecord[] };
+      return createMapStore(new Map(records.map(record => [record.id, record])));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return createMapStore();
+      loaded = undefined;
+      throw new Error(`Failed to read vector store ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  })();
+
+  function save(records: Map<string, VectorRecord>) {
+    const content = JSON.stringify({ version: 1, records: [...records.values()] });
+    const next = pendingWrite.then(async () => {
+      await fs.promises.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+      const temporary = `${file}.${process.pid}.tmp`;
+      await fs.promises.writeFile(temporary, content);
+      await fs.promises.rename(temporary, file);
+    });
+    pendingWrite = next.catch(() => undefined);
+    return next;
+  }
+
+  return {
+    async upsert(records) {
+      const memory = await load();
+      await memory.store.upsert(records);
+      await save(memory.records);
+    },
+
+    async query(vector, query) {
+      return (await load()).store.query(vector, query);
+    },
+
+    async delete(ids) {
+      const memory = await load();
+      await memory.store.delete(ids);
+      await save(memory.records);
+    },
+
+    async deleteWhere(filter) {
+      const memory = await load();
+      const removed = await memory.store.deleteWhere(filter);
+      if (removed > 0) await save(memory.records);
+      return removed;
+    },
+
+    async count() {
+      return (await load()).store.count();
+    }
+  };
+}
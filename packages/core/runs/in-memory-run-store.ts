@@ -0,0 +1,23 @@
+import type { RunState, RunStore } from './types';
+
+/**
+ * Keeps run state in process memory; suspended runs are lost on restart
+ */
+export function createInMemoryRunStore(): RunStore {
+  const runs = new Map<string, RunState>();
+
+  return {
+    async save(state) {
+      runs.set(state.runId, structuredClone(state));
+    },
+
+    async load(runId) {
+      const state = runs.get(runId);
+      return state && structuredClone(state);
+    },
+
+    async delete(runId) {
+      runs.delete(runId);
+    }
+  };
+}
@@ -0,0 +1,4 @@
+export type { RunState, RunStore } from './types';
+export { createInMemoryRunStore } from './in-memory-run-store';
+export { createJsonFileRunStore } from './json-file-run-store';
+export type { JsonFileRunStoreOptions } from './json-file-run-store';
@@ -0,0 +1,40 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { RunState, RunStore } from './types';
+
+export interface JsonFileRunStoreOptions {
+  directory: string;   // One <runId>.json file is written per run
+}
+
+/**
+ * Stores the state of each run as JSON in its own file
+ */
+export function createJsonFileRunStore({ directory }: JsonFileRunStoreOptions): RunStore {
+  const fileFor = (runId: string) => path.join(directory, `${encodeURIComponent(runId)}.json`);
+
+  return {
+    async save(state) {
+      await fs.promises.mkdir(directory, { recursive: true });
+      // Write then rename, so a crash mid-write never leaves a truncated state file
+      const temporary = `${fileFor(state.runId)}.${process.pid}.tmp`;
+      await fs.promises.writeFile(temporary, JSON.stringify(state, null, 2));
+      await fs.promises.rename(temporary, fileFor(state.runId));
+    },
+
+    async load(runId) {
+      try {
+        const content = await fs.promises.readFile(fileFor(runId), 'utf8');
+        return JSON.parse(content) as RunState;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return undefined;
+        }
+        throw new Error(`Failed to read run ${runId}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+
+    async delete(runId) {
+      await fs.promises.rm(fileFor(runId), { force: true });
+    }
+  };
+}
@@ -0,0 +1,39 @@
+import type { CoreMessage } from 'ai';
+import type { PendingToolApproval, StepUsage } from '../agents/types';
+
+// A tool call of a stored run, with the arguments it ran with and its result
+export interface RunToolCall {
+  toolCallId: string;
+  toolName: string;
+  args: unknown;
+  result?: unknown;
+}
+
+/**
+ * Everything needed to continue a suspended or checkpointed run, possibly in another process
+ */
+export interface RunState {
+  runId: string;
+  traceId: string;                         // Trace the run writes to; nested runs share their parent's
+  agentName: string;
+  status: 'running' | 'suspended';        // Running runs were checkpointed and may have crashed
+  userId?: string;
+  conversationId?: string;
+  messages: CoreMessage[];                 // Prompt for the next step: the history plus this run's responses
+  turnMessages: CoreMessage[];             // Appended to memory once the run completes
+  toolCalls?: RunToolCall[];               // Every tool call so far, for the response once the run completes
+  usage: StepUsage[];                      // Steps so far; they count towards the run budget on resume
+  persistedSteps: number;                  // How many of them were already added to the user's totals
+  pendingApprovals: PendingToolApproval[];
+  lastStep?: { text: string; finishReason: string }; // Completes runs that crashed after their final step
+  updatedAt: string;
+}
+
+/**
+ * Persists run state between suspension or checkpoints and resumption, keyed by run id
+ */
+export interface RunStore {
+  save: (state: RunState) => Promise<void>;
+  load: (runId: string) => Promise<RunState | undefined>;
+  delete: (runId: string) => Promise<void>;
+}
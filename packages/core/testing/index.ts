@@ -0,0 +1,4 @@
+export { createMockModel, getMockModel, registerMockModel } from '../model-providers/mock-model';
+export type { MockCall, MockModel, MockModelOptions, MockResponse, MockScript, MockToolCall } from '../model-providers/mock-model';
+export { createRecorder } from './record-replay';
+export type { Recorder, RecorderMode, RecorderOptions } from './record-replay';
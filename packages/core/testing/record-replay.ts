@@ -0,0 +1,231 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from 'ai';
+import type { AgentToolSet } from '../agents/types';
+import { stableStringify } from '../tools/tool-cache';
+
+export type RecorderMode = 'record' | 'replay' | 'auto';
+
+export interface RecorderOptions {
+  fixture: string;                     // JSON file the interactions are written to and replayed from
+  mode?: RecorderMode;                 // Defaults to FIXTURE_MODE, otherwise 'replay'
+}
+
+type GenerateResult = Awaited<ReturnType<LanguageModelV1['doGenerate']>>;
+
+// What is kept of a model call; raw provider requests and responses are left out
+interface ModelInteraction {
+  key: string;
+  kind: 'generate' | 'stream';
+  model: string;
+  prompt: unknown;                     // For reading the fixture; matching uses the key
+  result?: Pick<GenerateResult, 'text' | 'reasoning' | 'toolCalls' | 'finishReason' | 'usage' | 'providerMetadata' | 'response'>;
+  parts?: LanguageModelV1StreamPart[];
+}
+
+interface ToolInteraction {
+  key: string;
+  toolName: string;
+  args: unknown;
+  result?: unknown;
+  error?: string;
+}
+
+interface Fixture {
+  version: 1;
+  models: ModelInteraction[];
+  tools: ToolInteraction[];
+}
+
+export interface Recorder {
+  mode: RecorderMode;
+  wrapModel: (model: LanguageModelV1) => LanguageModelV1;
+  wrapTools: <TTools extends AgentToolSet>(tools: TTools) => TTools;
+}
+
+const hash = (value: unknown) => createHash('sha256').update(stableStringify(value)).digest('hex');
+
+// Dates and errors do not survive JSON; timestamps are restored and errors kept as their message
+function reviveResponse<T extends { response?: { timestamp?: Date | string } }>(value: T): T {
+  const timestamp = value.response?.timestamp;
+  return timestamp ? { ...value, response: { ...value.response, timestamp: new Date(timestamp) } } : value;
+}
+
+function revivePart(part: LanguageModelV1StreamPart): LanguageModelV1StreamPart {
+  if (part.type === 'response-metadata' && part.timestamp) return { ...part, timestamp: new Date(part.timestamp) };
+  if (part.type === 'error') return { ...part, error: new Error(String(part.error)) };
+  return part;
+}
+
+/**
+ * Records model and tool interactions to a fixture file and replays them, so agents
+ * can be tested offline and deterministically against real model behavior.
+ * Calls are matched on their content (prompt, tools and settings for models; name
+ * and arguments for tools). Identical calls are replayed in the order they were recorded.
+ * In 'auto' mode, calls found in the fixture are replayed and the others are recorded.
+ *
+ * Example usage:
+ * ```typescript
+ * const recorder = createRecorder({ fixture: './fixtures/weather.json' });
+ * const agent = createAgent({
+ *   name: 'weather-agent',
+ *   model: recorder.wrapModel(getModel('openai:gpt-4o-mini')),
+ *   tools: recorder.wrapTools({ getWeather })
+ * });
+ * // FIXTURE_MODE=record records once with live keys; later runs replay without them
+ * ```
+ */
+export function createRecorder(options: RecorderOptions): Recorder {
+  const mode = options.mode ?? (process.env.FIXTURE_MODE as RecorderMode | undefined) ?? 'replay';
+  if (!['record', 'replay', 'auto'].includes(mode)) {
+    throw new Error(`Unknown fixture mode "${mode}"; use record, replay or auto`);
+  }
+
+  // Recording starts a fresh fixture; replay and auto read the existing one
+  let fixture: Fixture = { version: 1, models: [], tools: [] };
+  if (mode !== 'record' && fs.existsSync(options.fixture)) {
+    fixture = JSON.parse(fs.readFileSync(options.fixture, 'utf8')) as Fixture;
+  } else if (mode === 'replay') {
+    throw new Error(`Fixture ${options.fixture} does not exist; record it first with FIXTURE_MODE=record`);
+  }
+
+  // Identical calls replay their recordings in order, then repeat the last one
+  const replayed = new Map<string, number>();
+  function find<T extends { key: string }>(entries: T[], key: string): T | undefined {
+    const matches = entries.filter(entry => entry.key === key);
+    if (matches.length === 0) return undefined;
+    const count = replayed.get(key) ?? 0;
+    replayed.set(key, count + 1);
+    return matches[Math.min(count, matches.length - 1)];
+  }
+
+  // Written after every recorded interaction, so a run that crashes keeps what it recorded
+  let writing = Promise.resolve();
+  function save() {
+    writing = writing.then(async () => {
+      await fs.promises.mkdir(path.dirname(options.fixture), { recursive: true });
+      await fs.promises.writeFile(options.fixture, JSON.stringify(fixture, null, 2));
+    });
+    return writing;
+  }
+
+  const missing = (what: string) => new Error(
+    `No recorded ${what} in ${options.fixture}; re-record it with FIXTURE_MODE=record or FIXTURE_MODE=auto`
+  );
+
+  const modelKey = (model: LanguageModelV1, kind: ModelInteraction['kind'], callOptions: LanguageModelV1CallOptions) => {
+    const { abortSignal: _signal, headers: _headers, ...request } = callOptions;
+    return hash({ model: `${model.provider}:${model.modelId}`, kind, request });
+  };
+
+  return {
+    mode,
+
+    wrapModel(model) {
+      // Provider models are classes, so their settings are copied rather than spread
+      return {
+        specificationVersion: 'v1',
+        provider: model.provider,
+        modelId: model.modelId,
+        defaultObjectGenerationMode: model.defaultObjectGenerationMode,
+        supportsImageUrls: model.supportsImageUrls,
+        supportsStructuredOutputs: model.supportsStructuredOutputs,
+        supportsUrl: model.supportsUrl?.bind(model),
+
+        async doGenerate(callOptions) {
+          const key = modelKey(model, 'generate', callOptions);
+          if (mode !== 'record') {
+            const recorded = find(fixture.models, key);
+            if (recorded?.result) {
+              return { ...reviveResponse(recorded.result), rawCall: { rawPrompt: null, rawSettings: {} } };
+            }
+            if (mode === 'replay') throw missing(`${model.modelId} generation`);
+          }
+
+          const result = await model.doGenerate(callOptions);
+          const { text, reasoning, toolCalls, finishReason, usage, providerMetadata, response } = result;
+          fixture.models.push({
+            key,
+            kind: 'generate',
+            model: model.modelId,
+            prompt: callOptions.prompt,
+            result: { text, reasoning, toolCalls, finishReason, usage, providerMetadata, response }
+          });
+          await save();
+          return result;
+        },
+
+        async doStream(callOptions) {
+          const key = modelKey(model, 'stream', callOptions);
+          if (mode !== 'record') {
+            const recorded = find(fixture.models, key);
+            if (recorded?.parts) {
+              const parts = recorded.parts.map(revivePart);
+              return {
+                stream: new ReadableStream<LanguageModelV1StreamPart>({
+                  start(controller) {
+                    parts.forEach(part => controller.enqueue(part));
+                    controller.close();
+                  }
+                }),
+                rawCall: { rawPrompt: null, rawSettings: {} }
+              };
+            }
+            if (mode === 'replay') throw missing(`${model.modelId} stream`);
+          }
+
+          // The stream is passed through as it arrives and saved once it ends
+          const result = await model.doStream(callOptions);
+          const parts: LanguageModelV1StreamPart[] = [];
+          return {
+            ...result,
+            stream: result.stream.pipeThrough(new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+              transform(part, controller) {
+                parts.push(part.type === 'error'
+                  ? { ...part, error: part.error instanceof Error ? part.error.message : String(part.error) }
+                  : part);
+                controller.enqueue(part);
+              },
+              async flush() {
+                fixture.models.push({ key, kind: 'stream', model: model.modelId, prompt: callOptions.prompt, parts });
+                await save();
+              }
+            }))
+          };
+        }
+      };
+    },
+
+    wrapTools(tools) {
+      return Object.fromEntries(Object.entries(tools).map(([toolName, tool]) => {
+        const { execute } = tool as { execute?: (args: unknown, ...rest: unknown[]) => Promise<unknown> };
+        if (!execute) return [toolName, tool];
+
+        const recordedExecute = async (args: unknown, ...rest: unknown[]) => {
+          const key = hash({ toolName, args });
+          if (mode !== 'record') {
+            const recorded = find(fixture.tools, key);
+            if (recorded) {
+              if (recorded.error !== undefined) throw new Error(recorded.error);
+              return recorded.result;
+            }
+            if (mode === 'replay') throw missing(`${toolName} tool call with these arguments`);
+          }
+
+          try {
+            const result = await execute(args, ...rest);
+            fixture.tools.push({ key, toolName, args, result });
+            await save();
+            return result;
+          } catch (error) {
+            fixture.tools.push({ key, toolName, args, error: error instanceof Error ? error.message : String(error) });
+            await save();
+            throw error;
+          }
+        };
+        return [toolName, { ...tool, execute: recordedExecute }];
+      })) as typeof tools;
+    }
+  };
+}
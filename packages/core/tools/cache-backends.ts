@@ -0,0 +1,77 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import type { CacheBackend } from './tool-cache';
+
+export interface FileCacheBackendOptions {
+  directory: string;
+}
+
+/**
+ * Stores each entry as a JSON file; expired entries are removed when read
+ */
+export function createFileCacheBackend({ directory }: FileCacheBackendOptions): CacheBackend {
+  const fileFor = (key: string) =>
+    path.join(directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+  return {
+    async get(key) {
+      try {
+        const content = await fs.promises.readFile(fileFor(key), 'utf8');
+        const entry = JSON.parse(content) as { value: unknown; expiresAt?: number };
+        if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+          await fs.promises.rm(fileFor(key), { force: true });
+          return undefined;
+        }
+        return entry.value;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+
+    async set(key, value, ttlMs) {
+      await fs.promises.mkdir(directory, { recursive: true });
+      await fs.promises.writeFile(
+        fileFor(key),
+        JSON.stringify({ key, value, expiresAt: ttlMs ? Date.now() + ttlMs : undefined })
+      );
+    },
+
+    async delete(key) {
+      await fs.promises.rm(fileFor(key), { force: true });
+    }
+  };
+}
+
+/**
+ * The subset of a Redis client the cache needs (matches node-redis v4;
+ * wrap other clients such as ioredis in an object with this shape)
+ */
+export interface RedisLikeClient {
+  get: (key: string) => Promise<string | null>;
+  set: (key: string, value: string, options?: { PX?: number }) => Promise<unknown>;
+  del: (key: string) => Promise<unknown>;
+}
+
+/**
+ * Stores entries in Redis (or any Redis-compatible server), using PX for expiry
+ */
+export function createRedisCacheBackend(client: RedisLikeClient): CacheBackend {
+  return {
+    async get(key) {
+      const value = await client.get(key);
+      return value === null ? undefined : JSON.parse(value);
+    },
+
+    async set(key, value, ttlMs) {
+      await client.set(key, JSON.stringify(value), ttlMs ? { PX: ttlMs } : undefined);
+    },
+
+    async delete(key) {
+      await client.del(key);
+    }
+  };
+}
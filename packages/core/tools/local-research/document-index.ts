@@ -0,0 +1,213 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { globToRegExp, walkWorkspace } from '../workspace/glob';
+import type { CorpusDocument, DocumentIndex, DocumentIndexOptions, Passage, SearchHit } from './types';
+
+export const DEFAULT_CORPUS_EXTENSIONS = ['.md', '.markdown', '.html', '.htm', '.txt'];
+
+const DEFAULT_MAX_PASSAGE_CHARS = 1200;
+const CORPUS_IGNORE = ['**/node_modules/**', '**/.git/**'].map(globToRegExp);
+
+const STOPWORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'not', 'of', 'on', 'or',
+  'our', 'so', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to',
+  'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your'
+]);
+
+// Just enough suffix stripping that "indexes", "indexed" and "indexing" meet at "index"
+function stem(term: string): string {
+  if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (/(?:sh|ch|x|z|ss)es$/.test(term)) return term.slice(0, -2);
+  if (term.length > 3 && term.endsWith('s') && !/(?:ss|us|is)$/.test(term)) return term.slice(0, -1);
+  if (term.length > 5 && term.endsWith('ing')) return term.slice(0, -3);
+  if (term.length > 4 && term.endsWith('ed')) return term.slice(0, -2);
+  return term;
+}
+
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.filter(word => !STOPWORDS.has(word)).map(stem);
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+  if (entity[0] === '#') {
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+    return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+  }
+  return ENTITIES[entity.toLowerCase()] ?? match;
+});
+
+// Whatever is removed keeps its line breaks, so passages point at lines of the original file
+const keepLineBreaks = (removed: string) => removed.replace(/[^\n]/g, '') || ' ';
+
+/**
+ * Converts HTML to plain text line by line. Headings become Markdown headings, and
+ * scripts, styles and comments are dropped.
+ */
+export function htmlToText(html: string): { content: string; title?: string } {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const content = html
+    .replace(/<!--[\s\S]*?-->/g, keepLineBreaks)
+    .replace(/<(script|style|noscript|head|template)\b[\s\S]*?<\/\1\s*>/gi, keepLineBreaks)
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi, (_match, level: string, inner: string) => `${'#'.repeat(Number(level))} ${inner}`)
+    .replace(/<[^>]+>/g, keepLineBreaks)
+    .split('\n')
+    .map(line => decodeEntities(line).replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n');
+  return { content, title: title ? decodeEntities(title).replace(/\s+/g, ' ').trim() : undefined };
+}
+
+/**
+ * Splits a document into passages: paragraphs are merged until `maxChars`, and every
+ * heading starts a new passage. Headings inside code fences are ignored.
+ */
+export function splitPassages(document: CorpusDocument, maxChars = DEFAULT_MAX_PASSAGE_CHARS): Omit<Passage, 'id'>[] {
+  const passages: Omit<Passage, 'id'>[] = [];
+  const lines = document.content.replace(/\r\n/g, '\n').split('\n');
+  let heading: string | undefined;
+  let current: { start: number; lines: string[]; chars: number } | undefined;
+  let inFence = false;
+
+  const flush = () => {
+    while (current && current.lines.length > 0 && current.lines[current.lines.length - 1].trim() === '') current.lines.pop();
+    if (current && current.lines.length > 0) {
+      passages.push({
+        path: document.path,
+        title: document.title,
+        heading,
+        startLine: current.start + 1,
+        endLine: current.start + current.lines.length,
+        text: current.lines.join('\n')
+      });
+    }
+    current = undefined;
+  };
+
+  // The paragraph starting at `index`, up to the next blank line or heading
+  const paragraphAt = (index: number) => {
+    let end = index;
+    while (end + 1 < lines.length && lines[end + 1].trim() !== '' && (inFence || !/^#{1,6}\s/.test(lines[end + 1]))) end++;
+    return end;
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (line.trim() === '') continue;
+
+    const headingMatch = !inFence && line.match(/^#{1,6}\s+(.*?)\s*#*\s*$/);
+    if (headingMatch) {
+      flush();
+      heading = headingMatch[1];
+      current = { start: index, lines: [line], chars: line.length };
+      continue;
+    }
+
+    const end = paragraphAt(index);
+    const paragraph = lines.slice(index, end + 1);
+    for (const paragraphLine of paragraph) {
+      if (/^\s*(?:```|~~~)/.test(paragraphLine)) inFence = !inFence;
+    }
+    const chars = paragraph.reduce((total, paragraphLine) => total + paragraphLine.length + 1, 0);
+
+    if (current && current.chars + chars > maxChars) flush();
+    if (!current) {
+      current = { start: index, lines: [], chars: 0 };
+    } else {
+      // Keep the blank lines between paragraphs, so the line range stays contiguous
+      current.lines.push(...lines.slice(current.start + current.lines.length, index));
+    }
+
+    // A paragraph longer than a passage is split by lines
+    paragraph.forEach((paragraphLine, offset) => {
+      if (current && current.chars > 0 && current.chars + paragraphLine.length + 1 > maxChars) flush();
+      current ??= { start: index + offset, lines: [], chars: 0 };
+      current.lines.push(paragraphLine);
+      current.chars += paragraphLine.length + 1;
+    });
+    index = end;
+  }
+  flush();
+  return passages;
+}
+
+/**
+ * Builds an in-memory BM25 index over the passages of the given documents. The heading
+ * above a passage counts as part of its text.
+ */
+export function createDocumentIndex(documents: CorpusDocument[], options: DocumentIndexOptions = {}): DocumentIndex {
+  const { maxPassageChars = DEFAULT_MAX_PASSAGE_CHARS, k1 = 1.2, b = 0.75 } = options;
+  const passages: Passage[] = documents
+    .flatMap(document => splitPassages(document, maxPassageChars))
+    .map((passage, id) => ({ ...passage, id }));
+
+  // term -> [passage id, term frequency]
+  const postings = new Map<string, [number, number][]>();
+  const lengths: number[] = [];
+  for (const passage of passages) {
+    const terms = tokenize(`${passage.heading ?? ''}\n${passage.text}`);
+    lengths.push(terms.length);
+    const frequencies = new Map<string, number>();
+    for (const term of terms) frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    for (const [term, frequency] of frequencies) {
+      const list = postings.get(term) ?? [];
+      list.push([passage.id, frequency]);
+      postings.set(term, list);
+    }
+  }
+  const averageLength = lengths.reduce((total, length) => total + length, 0) / Math.max(1, lengths.length);
+
+  return {
+    documentCount: documents.length,
+    passageCount: passages.length,
+    search(query, { limit = 5, maxPerSource = Infinity } = {}) {
+      const scores = new Map<number, number>();
+      for (const term of new Set(tokenize(query))) {
+        const list = postings.get(term);
+        if (!list) continue;
+        const idf = Math.log(1 + (passages.length - list.length + 0.5) / (list.length + 0.5));
+        for (const [id, frequency] of list) {
+          const norm = frequency * (k1 + 1) / (frequency + k1 * (1 - b + b * lengths[id] / averageLength));
+          scores.set(id, (scores.get(id) ?? 0) + idf * norm);
+        }
+      }
+
+      const ranked = [...scores.entries()].sort((left, right) => right[1] - left[1] || left[0] - right[0]);
+      const perSource = new Map<string, number>();
+      const hits: SearchHit[] = [];
+      for (const [id, score] of ranked) {
+        if (hits.length === limit) break;
+        const passage = passages[id];
+        const taken = perSource.get(passage.path) ?? 0;
+        if (taken >= maxPerSource) continue;
+        perSource.set(passage.path, taken + 1);
+        hits.push({ passage, score });
+      }
+      return hits;
+    }
+  };
+}
+
+/**
+ * Reads the corpus files below a directory. Symlinks are not followed; Markdown files
+ * take their title from the first `#` heading and HTML files from `<title>`.
+ */
+export async function loadCorpus(rootDir: string, extensions = DEFAULT_CORPUS_EXTENSIONS): Promise<CorpusDocument[]> {
+  const root = path.resolve(rootDir);
+  const wanted = extensions.map(extension => extension.toLowerCase());
+  const documents: CorpusDocument[] = [];
+
+  for await (const entry of walkWorkspace(root, root, { ignore: CORPUS_IGNORE, recursive: true })) {
+    const extension = path.extname(entry.path).toLowerCase();
+    if (entry.type !== 'file' || !wanted.includes(extension)) continue;
+    const raw = await fs.promises.readFile(path.join(root, entry.path), 'utf8');
+    if (extension === '.html' || extension === '.htm') {
+      documents.push({ path: entry.path, ...htmlToText(raw) });
+    } else {
+      documents.push({ path: entry.path, content: raw, title: raw.match(/^#\s+(.+)$/m)?.[1].trim() });
+    }
+  }
+  return documents;
+}
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { createTool } from '../types.config';
+import type { ResearchResult } from '../research-types';
+import { createDocumentIndex, loadCorpus } from './document-index';
+import type { DocumentIndex, LocalResearchOptions, SearchHit } from './types';
+
+const formatHit = ({ passage }: SearchHit, rank: number) => {
+  const location = `${passage.path}:${passage.startLine}-${passage.endLine}`;
+  const context = [passage.title, passage.heading].filter((part, index, parts) => part && parts.indexOf(part) === index);
+  return `[${rank}] ${location}${context.length > 0 ? ` (${context.join(' > ')})` : ''}\n${passage.text}`;
+};
+
+/**
+ * A research tool that answers from a local corpus instead of the web: Markdown, HTML
+ * and text files are split into passages and ranked with BM25. Results have the same
+ * `{ data, sources }` shape as `PerplexityTool`, with each source pointing at a file
+ * and line range, so research agents run against internal docs or offline fixtures.
+ *
+ * The corpus is read on the first call and kept for the life of the tool.
+ *
+ * Example usage:
+ * ```typescript
+ * const agent = createAgent({
+ *   name: 'docs-research',
+ *   model: 'openai:gpt-4o',
+ *   tools: { research: LocalResearchTool({ rootDir: './docs' }) }
+ * });
+ * ```
+ */
+export const LocalResearchTool = (options: LocalResearchOptions) => {
+  const { rootDir, documents = [], extensions, limit = 5, maxPerSource = 2, name = 'local-research', config } = options;
+  if (!rootDir && documents.length === 0) {
+    throw new Error('LocalResearchTool needs a rootDir or documents to search');
+  }
+
+  let index: Promise<DocumentIndex> | undefined;
+  const getIndex = () => {
+    index ??= (rootDir ? loadCorpus(rootDir, extensions) : Promise.resolve([]))
+      .then(loaded => createDocumentIndex([...loaded, ...documents], options));
+    // A failed load is retried on the next call
+    index.catch(() => { index = undefined; });
+    return index;
+  };
+
+  return createTool({
+    name,
+    description: 'Searches the local document library and returns the most relevant passages with their sources. ' +
+      'Use specific keywords; run several searches for different aspects of a topic.',
+    parameters: z.object({
+      query: z.string().describe('Keywords or a question describing what to find'),
+      limit: z.number().int().min(1).max(20).optional().describe(`Passages to return (default ${limit})`)
+    }),
+    execute: async ({ query, limit: requested }): Promise<ResearchResult> => {
+      const hits = (await getIndex()).search(query, { limit: requested ?? limit, maxPerSource });
+      if (hits.length === 0) {
+        return { data: `No passages in the local library match "${query}".`, sources: [] };
+      }
+      return {
+        data: hits.map((hit, rank) => formatHit(hit, rank + 1)).join('\n\n'),
+        sources: hits.map(({ passage, score }) => ({
+          source: passage.path,
+          title: passage.title,
+          startLine: passage.startLine,
+          endLine: passage.endLine,
+          score: Math.round(score * 1000) / 1000
+        }))
+      };
+    },
+    config,
+    cache: { scope: 'run' },
+  });
+};
@@ -0,0 +1,45 @@
+import type { ToolConfig } from '../types.config';
+
+export interface CorpusDocument {
+  path: string;                        // Relative to the corpus root, with forward slashes
+  content: string;                     // Plain text; HTML is converted with its line numbers kept
+  title?: string;
+}
+
+// A span of a document that is indexed and returned on its own
+export interface Passage {
+  id: number;
+  path: string;
+  title?: string;
+  heading?: string;                    // The nearest heading above the passage
+  startLine: number;                   // 1-based, inclusive
+  endLine: number;
+  text: string;
+}
+
+export interface SearchHit {
+  passage: Passage;
+  score: number;
+}
+
+export interface DocumentIndex {
+  search: (query: string, options?: { limit?: number; maxPerSource?: number }) => SearchHit[];
+  readonly documentCount: number;
+  readonly passageCount: number;
+}
+
+export interface DocumentIndexOptions {
+  maxPassageChars?: number;            // Paragraphs are merged up to this length (default 1200)
+  k1?: number;                         // BM25 term frequency saturation (default 1.2)
+  b?: number;                          // BM25 length normalization (default 0.75)
+}
+
+export interface LocalResearchOptions extends DocumentIndexOptions {
+  rootDir?: string;                    // Directory of .md, .markdown, .html, .htm and .txt files
+  documents?: CorpusDocument[];        // Indexed in addition to, or instead of, the directory
+  extensions?: string[];               // Files to index from rootDir
+  limit?: number;                      // Passages returned per query (default 5)
+  maxPerSource?: number;               // Passages returned from one file (default 2)
+  name?: string;                       // Tool name (default 'local-research')
+  config?: ToolConfig;
+}
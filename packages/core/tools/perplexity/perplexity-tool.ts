@@ -3,6 +3,29 @@ import { generateText, tool } from 'ai';
 import { z } from 'zod';
 import { createTool } from '../types.config';
 import type { ToolConfig } from '../types.config';
+import type { ToolPolicy } from '../tool-policy';
+import type { ToolCachePolicy } from '../tool-cache';
+import type { ResearchResult, ResearchSource } from '../research-types';
+
+// Shared by every PerplexityTool instance so the circuit breaker sees all calls
+const perplexityPolicy: ToolPolicy = {
+  timeoutMs: 60_000,
+  retries: 2,
+  backoffMs: 1_000,
+  circuitBreaker: { failureThreshold: 5, resetAfterMs: 60_000 },
+};
+
+// Research results stay useful for a while, so identical queries are reused across runs
+const perplexityCache: ToolCachePolicy = {
+  scope: 'global',
+  ttlMs: 6 * 60 * 60 * 1000,
+};
+
+// The answer lists its links at the bottom, as the prompt asks
+function extractSources(text: string): ResearchSource[] {
+  const urls = text.match(/https?:\/\/[^\s<>()\[\]"']+/g) ?? [];
+  return [...new Set(urls.map(url => url.replace(/[.,;:!?]+$/, '')))].map(source => ({ source }));
+}
 
 export const PerplexityTool = (config?: ToolConfig) => createTool({
   name: 'perplexity',
@@ -10,7 +33,7 @@ export const PerplexityTool = (config?: ToolConfig) => createTool({
   parameters: z.object({
     prompt: z.string().describe('Give detailed prompt about the research needed...'),
   }),
-  execute: async ({ prompt }) => {
+  execute: async ({ prompt }): Promise<ResearchResult> => {
     const enhancedPrompt = `${prompt} Please provide the links to the sources used in the research at the bottom.`;
     console.log("Perplexity Input: ", enhancedPrompt);
 
@@ -25,7 +48,9 @@ export const PerplexityTool = (config?: ToolConfig) => createTool({
     });
 
     console.log("Perplexity Output: ", text);
-    return { data: text };
+    return { data: text, sources: extractSources(text) };
   },
   config,
+  policy: perplexityPolicy,
+  cache: perplexityCache,
 });
\ No newline at end of file
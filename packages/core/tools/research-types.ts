@@ -0,0 +1,15 @@
+// What every research tool returns, live or local, so agents can switch between them
+
+export interface ResearchSource {
+  source: string;                      // URL, or path relative to the corpus root
+  id?: string;                         // Chunk id, for results from a knowledge base
+  title?: string;
+  startLine?: number;                  // 1-based line range of a local passage
+  endLine?: number;
+  score?: number;                      // Relevance, for ranked local results
+}
+
+export interface ResearchResult {
+  data: string;                        // Findings as text, citing sources as [1], [2], ...
+  sources: ResearchSource[];
+}
@@ -0,0 +1,57 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+// True when target is strictly below root
+export const isInsideRoot = (root: string, target: string) => {
+  const relative = path.relative(root, target);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+};
+
+// The deepest part of a path that exists, resolved through symlinks
+async function realpathOfExisting(target: string): Promise<string> {
+  try {
+    return await fs.promises.realpath(target);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    const parent = path.dirname(target);
+    if (parent === target) return target;
+    return path.join(await realpathOfExisting(parent), path.basename(target));
+  }
+}
+
+/**
+ * Resolves a path chosen by the model against a root directory. Absolute paths, `..`
+ * segments and symlinks that lead outside the root are rejected; `allowRoot` lets
+ * '.' stand for the root itself, e.g. to list it.
+ */
+export async function resolveSandboxedPath(
+  rootDir: string,
+  relativePath: string,
+  options: { label?: string; allowRoot?: boolean } = {}
+): Promise<string> {
+  const { label = 'Path', allowRoot = false } = options;
+  const root = path.resolve(rootDir);
+
+  if (!relativePath.trim() || relativePath.includes('\0')) {
+    throw new Error(`${label} is empty or invalid`);
+  }
+  if (path.isAbsolute(relativePath) || /^[a-zA-Z]:/.test(relativePath) || relativePath.startsWith('\\')) {
+    throw new Error(`${label} must be relative to the root directory: ${relativePath}`);
+  }
+  if (relativePath.split(/[\\/]/).includes('..')) {
+    throw new Error(`${label} must not contain "..": ${relativePath}`);
+  }
+
+  const target = path.resolve(root, relativePath);
+  const inside = (base: string, candidate: string) => (allowRoot && candidate === base) || isInsideRoot(base, candidate);
+  if (!inside(root, target)) {
+    throw new Error(`${label} resolves outside the root directory: ${relativePath}`);
+  }
+
+  // A symlink inside the root could still point elsewhere
+  const realRoot = await realpathOfExisting(root);
+  if (!inside(realRoot, await realpathOfExisting(target))) {
+    throw new Error(`${label} resolves outside the root directory: ${relativePath}`);
+  }
+  return target;
+}
@@ -1,44 +1,169 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { tool } from 'ai';
-import type { LangfuseTraceClient } from 'langfuse';
 import { z } from 'zod';
-import { createTool } from '../types.config';
-import type { ToolConfig } from '../types.config';
+import type { AgentTool, ToolContext } from '../../agents/types';
+import { resolveSandboxedPath } from '../sandbox-path';
+
+export interface SaveLogOptions {
+  rootDir?: string;                    // Every log file is kept inside this directory (default './logs')
+  allowedExtensions?: string[];        // Default .log, .txt, .md and .jsonl
+  maxFileBytes?: number;               // A file is rotated before a write would grow it past this (default 5 MB)
+  maxRotatedFiles?: number;            // Rotated copies kept as name.1.log, name.2.log, ... (default 3)
+  maxEntryBytes?: number;              // Largest single write (default 64 KB)
+}
+
+// One line of a .jsonl log; `data` fields are added beside these
+export interface LogFileRecord {
+  timestamp: string;
+  level: 'debug' | 'info' | 'warn' | 'error';
+  runId?: string;
+  agent?: string;
+  message: string;
+}
+
+export interface SaveLogResult {
+  success: true;
+  file: string;                        // Relative to the root directory
+  bytes: number;
+  rotated: boolean;
+}
+
+const DEFAULT_EXTENSIONS = ['.log', '.txt', '.md', '.jsonl'];
+const DEFAULT_MAX_FILE_BYTES = 5 * 1024 * 1024;
+const DEFAULT_MAX_ROTATED_FILES = 3;
+const DEFAULT_MAX_ENTRY_BYTES = 64 * 1024;
+
+// Writes to the same file are queued, so a rotation never races an append
+const fileQueues = new Map<string, Promise<unknown>>();
+
+function enqueue<T>(file: string, write: () => Promise<T>): Promise<T> {
+  const previous = fileQueues.get(file) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(write);
+  fileQueues.set(file, next);
+  void next.finally(() => {
+    if (fileQueues.get(file) === next) fileQueues.delete(file);
+  }).catch(() => undefined);
+  return next;
+}
 
 /**
- * Saves or appends text to a log file
- * @param filename The name/path of the log file
- * @param text The text content to save/append
+ * Resolves a log filename chosen by the model to a path inside the root directory.
+ * Absolute paths, `..` segments, extensions that are not allowed and symlinks that
+ * lead outside the root are rejected.
  */
-export async function saveToLog(filename: string, text: string): Promise<void> {
-    try {
-        // Ensure the directory exists
-        const dir = path.dirname(filename);
-        if (!fs.existsSync(dir)) {
-            fs.mkdirSync(dir, { recursive: true });
-        }
-
-        // Append text to file, creating it if it doesn't exist
-        await fs.promises.appendFile(filename, `${text}\n`);
-    } catch (error) {
-        if (error instanceof Error) {
-            throw new Error(`Failed to save to log file: ${error.message}`);
-        }
-        throw new Error('An unknown error occurred while saving to log file');
+export async function resolveLogPath(filename: string, options: SaveLogOptions = {}): Promise<string> {
+  const rootDir = path.resolve(options.rootDir ?? 'logs');
+  const allowedExtensions = (options.allowedExtensions ?? DEFAULT_EXTENSIONS).map(extension => extension.toLowerCase());
+
+  const target = await resolveSandboxedPath(rootDir, filename, { label: 'Log filename' });
+  const extension = path.extname(target).toLowerCase();
+  if (!allowedExtensions.includes(extension)) {
+    throw new Error(`Log files must end in ${allowedExtensions.join(', ')}: ${filename}`);
+  }
+  return target;
+}
+
+// name.log becomes name.1.log, name.1.log becomes name.2.log, and the oldest copy is dropped
+async function rotate(file: string, maxRotatedFiles: number) {
+  const extension = path.extname(file);
+  const base = file.slice(0, file.length - extension.length);
+  const rotated = (index: number) => `${base}.${index}${extension}`;
+
+  if (maxRotatedFiles === 0) {
+    await fs.promises.rm(file, { force: true });
+    return;
+  }
+  await fs.promises.rm(rotated(maxRotatedFiles), { force: true });
+  for (let index = maxRotatedFiles - 1; index >= 1; index--) {
+    await fs.promises.rename(rotated(index), rotated(index + 1)).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ENOENT') throw error;
+    });
+  }
+  await fs.promises.rename(file, rotated(1));
+}
+
+/**
+ * Appends an entry to a log file inside the root directory, rotating the file when
+ * it would grow past `maxFileBytes`. The entry is written as given, plus a newline.
+ */
+export async function saveToLog(filename: string, entry: string, options: SaveLogOptions = {}): Promise<SaveLogResult> {
+  const {
+    maxFileBytes = DEFAULT_MAX_FILE_BYTES,
+    maxRotatedFiles = DEFAULT_MAX_ROTATED_FILES,
+    maxEntryBytes = DEFAULT_MAX_ENTRY_BYTES
+  } = options;
+  const file = await resolveLogPath(filename, options);
+  const content = `${entry}\n`;
+  const bytes = Buffer.byteLength(content);
+  if (bytes > maxEntryBytes) {
+    throw new Error(`Log entry is ${bytes} bytes, more than the limit of ${maxEntryBytes}`);
+  }
+
+  return enqueue(file, async () => {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+
+    let rotated = false;
+    const size = await fs.promises.stat(file).then(stats => stats.size, () => 0);
+    if (size > 0 && size + bytes > maxFileBytes) {
+      await rotate(file, maxRotatedFiles);
+      rotated = true;
     }
+
+    await fs.promises.appendFile(file, content);
+    return {
+      success: true as const,
+      file: path.relative(path.resolve(options.rootDir ?? 'logs'), file),
+      bytes,
+      rotated
+    };
+  });
 }
 
-export const createSaveLogTool = (config?: ToolConfig) => createTool({
+// JSONL files get one record per entry; other files get the text as it is
+export function formatLogEntry(
+  filename: string,
+  entry: { text: string; level?: LogFileRecord['level']; data?: Record<string, unknown> },
+  context: Pick<ToolContext, 'runId' | 'agentName'> = {}
+): string {
+  if (path.extname(filename).toLowerCase() !== '.jsonl') {
+    return entry.text;
+  }
+  const record: LogFileRecord = {
+    timestamp: new Date().toISOString(),
+    level: entry.level ?? 'info',
+    runId: context.runId,
+    agent: context.agentName,
+    message: entry.text
+  };
+  return JSON.stringify({ ...entry.data, ...record });
+}
+
+const saveLogParameters = z.object({
+  filename: z.string().describe('Log file path relative to the log directory, e.g. "research/notes.log" or "events.jsonl"'),
+  text: z.string().describe('The text to append, or the message of the record in a .jsonl file'),
+  level: z.enum(['debug', 'info', 'warn', 'error']).optional().describe('Level of the record in a .jsonl file (default info)'),
+  data: z.record(z.unknown()).optional().describe('Extra fields for the record in a .jsonl file')
+});
+
+/**
+ * Lets an agent append to log files, only inside `rootDir` and only with the allowed
+ * extensions. Files ending in .jsonl get JSON records with a timestamp, the run id and
+ * the agent name; other files get the text as it is.
+ *
+ * Example usage:
+ * ```typescript
+ * const agent = createAgent({
+ *   name: 'research-agent',
+ *   model: 'openai:gpt-4o',
+ *   tools: { saveLog: createSaveLogTool({ rootDir: './logs/research', maxFileBytes: 1024 * 1024 }) }
+ * });
+ * ```
+ */
+export const createSaveLogTool = (options: SaveLogOptions = {}): AgentTool<z.infer<typeof saveLogParameters>, SaveLogResult> => ({
   name: 'save-log',
-  description: 'Saves or appends text content to a log file',
-  parameters: z.object({
-    filename: z.string().describe('The name/path of the log file'),
-    text: z.string().describe('The text content to save/append'),
-  }),
-  execute: async ({ filename, text }) => {
-    await saveToLog(filename, text);
-    return { success: true };
-  },
-  config,
+  description: `Appends text to a log file in the log directory. Allowed extensions: ${(options.allowedExtensions ?? DEFAULT_EXTENSIONS).join(', ')}`,
+  parameters: saveLogParameters,
+  execute: async ({ filename, text, level, data }, context) =>
+    saveToLog(filename, formatLogEntry(filename, { text, level, data }, context), options),
+  cache: false,
 });
@@ -0,0 +1,130 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Where a cached tool result is visible:
+ * - run: only within the agent run that produced it
+ * - conversation: across runs with the same conversation id
+ * - global: across all runs sharing the cache backend
+ */
+export type ToolCacheScope = 'run' | 'conversation' | 'global';
+
+export interface ToolCachePolicy {
+  scope?: ToolCacheScope;     // Defaults to 'run'
+  ttlMs?: number;             // Entries never expire when unset
+}
+
+/**
+ * Storage for conversation and global scoped results. Values must be JSON-serializable.
+ */
+export interface CacheBackend {
+  get: (key: string) => Promise<unknown | undefined>;
+  set: (key: string, value: unknown, ttlMs?: number) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+}
+
+export interface ToolCacheOptions {
+  backend?: CacheBackend;                       // Defaults to a process-wide in-memory backend
+  defaultPolicy?: ToolCachePolicy | false;      // For tools that do not declare `cache` (default: not cached)
+}
+
+export type CacheLookup = { hit: true; value: unknown; scope: ToolCacheScope } | { hit: false };
+
+/**
+ * Serializes a value with object keys sorted, so argument order does not change the key
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function hashToolArgs(toolName: string, args: unknown): string {
+  return createHash('sha256').update(`${toolName}\n${stableStringify(args)}`).digest('hex');
+}
+
+/**
+ * In-memory backend with per-entry expiry
+ */
+export function createMemoryCacheBackend(): CacheBackend {
+  const entries = new Map<string, { value: unknown; expiresAt?: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    },
+
+    async set(key, value, ttlMs) {
+      entries.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : undefined });
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    }
+  };
+}
+
+// Shared default so global entries outlive a single agent
+const defaultBackend = createMemoryCacheBackend();
+
+/**
+ * Creates the cache used by one agent run. Only tools that declare `cache`, or all tools
+ * under a `defaultPolicy`, are cached, since a tool may have side effects. Run-scoped
+ * entries are kept in the run itself; conversation and global entries go to the backend.
+ */
+export function createToolResultCache(
+  options: ToolCacheOptions | false | undefined,
+  { runId, conversationId }: { runId: string; conversationId?: string }
+) {
+  const runBackend = createMemoryCacheBackend();
+  const backend = (options && options.backend) || defaultBackend;
+  const defaultPolicy: ToolCachePolicy | false = options === false ? false : options?.defaultPolicy ?? false;
+
+  function resolve(toolName: string, args: unknown, toolPolicy: ToolCachePolicy | false | undefined) {
+    const policy = toolPolicy ?? defaultPolicy;
+    if (options === false || policy === false) return undefined;
+
+    // Conversation scope needs an id; without one, results are only reused within the run
+    const scope = policy.scope === 'conversation' && !conversationId ? 'run' : policy.scope ?? 'run';
+    const prefix = scope === 'run' ? `run:${runId}` : scope === 'conversation' ? `conversation:${conversationId}` : 'global';
+
+    return {
+      scope,
+      ttlMs: policy.ttlMs,
+      key: `tool-cache:${prefix}:${toolName}:${hashToolArgs(toolName, args)}`,
+      store: scope === 'run' ? runBackend : backend
+    };
+  }
+
+  return {
+    async get(toolName: string, args: unknown, toolPolicy?: ToolCachePolicy | false): Promise<CacheLookup> {
+      const entry = resolve(toolName, args, toolPolicy);
+      if (!entry) return { hit: false };
+
+      const value = await entry.store.get(entry.key);
+      return value === undefined ? { hit: false } : { hit: true, value, scope: entry.scope };
+    },
+
+    async set(toolName: string, args: unknown, value: unknown, toolPolicy?: ToolCachePolicy | false) {
+      const entry = resolve(toolName, args, toolPolicy);
+      if (!entry || value === undefined) return;
+
+      await entry.store.set(entry.key, value, entry.ttlMs);
+    }
+  };
+}
+
+export type ToolResultCache = ReturnType<typeof createToolResultCache>;
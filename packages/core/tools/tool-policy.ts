@@ -0,0 +1,148 @@
+/**
+ * Execution policy for a tool: timeout, retries with exponential backoff and a circuit breaker.
+ * Policies are enforced by the agent runtime for every tool call.
+ */
+export interface ToolPolicy {
+  timeoutMs?: number;                          // Fail an attempt that takes longer than this
+  retries?: number;                            // Extra attempts after the first one fails (default 0)
+  backoffMs?: number;                          // Delay before the first retry, doubled each time (default 500)
+  maxBackoffMs?: number;                       // Upper bound for the retry delay (default 10000)
+  isRetryable?: (error: unknown) => boolean;   // Defaults to retrying every error
+  circuitBreaker?: CircuitBreakerOptions;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;                    // Consecutive failed calls before the circuit opens
+  resetAfterMs: number;                        // How long the circuit stays open before a trial call
+}
+
+export interface ToolAttemptOutcome {
+  attempt: number;
+  status: 'success' | 'error' | 'timeout';
+  durationMs: number;
+  message?: string;
+  retryInMs?: number;                          // Set when another attempt follows
+}
+
+export interface ToolPolicyHooks {
+  onAttemptStart?: (attempt: number) => void;
+  onAttemptEnd?: (outcome: ToolAttemptOutcome) => void;
+  onCircuitOpen?: (retryAfterMs: number) => void;
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openedAt?: number;
+}
+
+const DEFAULT_BACKOFF_MS = 500;
+const DEFAULT_MAX_BACKOFF_MS = 10_000;
+
+// Breaker state lives as long as the policy object, so it is shared by every run using the tool
+const circuits = new WeakMap<CircuitBreakerOptions, CircuitState>();
+
+function getCircuit(options: CircuitBreakerOptions): CircuitState {
+  let state = circuits.get(options);
+  if (!state) {
+    state = { consecutiveFailures: 0 };
+    circuits.set(options, state);
+  }
+  return state;
+}
+
+export function isToolTimeoutError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'ToolTimeoutError';
+}
+
+export function isCircuitOpenError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'CircuitOpenError';
+}
+
+function withTimeout<T>(toolName: string, promise: Promise<T>, timeoutMs?: number): Promise<T> {
+  if (!timeoutMs) return promise;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`${toolName} tool timed out after ${timeoutMs}ms`);
+      error.name = 'ToolTimeoutError';
+      reject(error);
+    }, timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a tool call under its policy. Each attempt is reported through the hooks;
+ * the last error is rethrown once the retries are used up or the error is not retryable.
+ */
+export async function executeWithPolicy<T>(
+  toolName: string,
+  policy: ToolPolicy | undefined,
+  execute: () => PromiseLike<T>,
+  hooks: ToolPolicyHooks = {}
+): Promise<T> {
+  const {
+    timeoutMs,
+    retries = 0,
+    backoffMs = DEFAULT_BACKOFF_MS,
+    maxBackoffMs = DEFAULT_MAX_BACKOFF_MS,
+    isRetryable = () => true,
+    circuitBreaker
+  } = policy ?? {};
+
+  const circuit = circuitBreaker ? getCircuit(circuitBreaker) : undefined;
+
+  // While open, calls fail fast; after resetAfterMs one trial call is let through
+  if (circuitBreaker && circuit?.openedAt !== undefined) {
+    const retryAfterMs = circuit.openedAt + circuitBreaker.resetAfterMs - Date.now();
+    if (retryAfterMs > 0) {
+      hooks.onCircuitOpen?.(retryAfterMs);
+      const error = new Error(`${toolName} tool is unavailable after repeated failures; retry in ${retryAfterMs}ms`);
+      error.name = 'CircuitOpenError';
+      throw error;
+    }
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+    hooks.onAttemptStart?.(attempt);
+
+    try {
+      const result = await withTimeout(toolName, Promise.resolve(execute()), timeoutMs);
+
+      hooks.onAttemptEnd?.({ attempt, status: 'success', durationMs: Date.now() - startedAt });
+      if (circuit) {
+        circuit.consecutiveFailures = 0;
+        circuit.openedAt = undefined;
+      }
+      return result;
+    } catch (error) {
+      const willRetry = attempt <= retries && isRetryable(error);
+      const retryInMs = willRetry ? Math.min(backoffMs * 2 ** (attempt - 1), maxBackoffMs) : undefined;
+
+      hooks.onAttemptEnd?.({
+        attempt,
+        status: isToolTimeoutError(error) ? 'timeout' : 'error',
+        durationMs: Date.now() - startedAt,
+        message: error instanceof Error ? error.message : String(error),
+        retryInMs
+      });
+
+      if (retryInMs === undefined) {
+        if (circuitBreaker && circuit) {
+          circuit.consecutiveFailures++;
+          if (circuit.consecutiveFailures >= circuitBreaker.failureThreshold) {
+            circuit.openedAt = Date.now();
+          }
+        }
+        throw error;
+      }
+
+      await sleep(retryInMs);
+    }
+  }
+}
@@ -1,10 +1,16 @@
-import type { LangfuseTraceClient } from 'langfuse';
 import { tool } from 'ai';
+import type { ToolExecutionOptions } from 'ai';
 import type { z } from 'zod';
+import type { Trace } from '../tracing/types';
+import type { ToolPolicy } from './tool-policy';
+import type { ToolCachePolicy } from './tool-cache';
+import type { Logger, ToolApprovalPolicy } from '../agents/types';
+import { bindLogger } from '../logging/logger';
 
 export interface ToolConfig {
   traceId?: string;
-  trace?: LangfuseTraceClient;
+  trace?: Trace;
+  logger?: Logger;              // Calls are logged with the tool name and call id bound
 }
 
 export type ToolExecuteFunction<TInput, TOutput> = (input: TInput) => Promise<TOutput>;
@@ -15,47 +21,50 @@ export function createTool<TInput, TOutput>({
   parameters,
   execute,
   config = {},
+  policy,
+  cache,
+  requiresApproval,
 }: {
   name: string;
   description: string;
   parameters: z.ZodType<TInput>;
   execute: ToolExecuteFunction<TInput, TOutput>;
   config?: ToolConfig;
+  policy?: ToolPolicy;          // Enforced by the agent runtime when the tool is called
+  cache?: ToolCachePolicy | false;  // Result caching in the agent runtime; false for side effects
+  requiresApproval?: ToolApprovalPolicy<TInput>;  // The agent runtime suspends the run until approved
 }) {
-  return tool({
+  const coreTool = tool({
     description,
     parameters,
-    execute: async (input: TInput) => {
-      const { trace, traceId } = config;
-
-      if (trace && traceId) {
-        trace.span({
-          name: `${name}-tool`,
-          id: traceId,
-          input,
-        });
-      }
+    execute: async (input: TInput, options?: ToolExecutionOptions) => {
+      const log = bindLogger(config.logger, { tool: name, toolCallId: options?.toolCallId, traceId: config.traceId });
+      const startedAt = Date.now();
+      const span = config.trace?.span({
+        name: `${name}-tool`,
+        input,
+        metadata: { traceId: config.traceId },
+      });
+      log.debug(`Tool call start: ${name}`, { args: input });
 
       try {
         const output = await execute(input);
-
-        if (trace && traceId) {
-          trace.span({
-            name: `${name}-tool`,
-            id: traceId,
-            output,
-          });
-        }
+        span?.end({ output });
+        log.debug(`Tool call end: ${name}`, { durationMs: Date.now() - startedAt });
 
         return output;
       } catch (error) {
         const errorMessage = error instanceof Error 
           ? error.message 
           : 'An unknown error occurred';
+        span?.end({ level: 'ERROR', statusMessage: errorMessage });
+        log.error(`Tool call error: ${name}`, { error: errorMessage, durationMs: Date.now() - startedAt });
           
         throw new Error(`${name} tool failed: ${errorMessage}`);
       }
     },
   });
+
+  return { ...coreTool, policy, cache, requiresApproval };
 }
 
@@ -0,0 +1,82 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { WorkspaceEntry } from './types';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Converts a glob to a regular expression over paths with forward slashes.
+ * Supports `**`, `*`, `?`, `{a,b}` and `[abc]`; `*` and `?` never cross a `/`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (char === '*') {
+      if (glob[index + 1] === '*') {
+        const slash = glob[index + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        index += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', index + 1);
+      if (close === -1) {
+        source += '\\[';
+        continue;
+      }
+      const members = glob.slice(index + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      source += `[${members}]`;
+      index = close;
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export const toPosixPath = (value: string) => value.split(path.sep).join('/');
+
+/**
+ * Walks a directory inside the workspace in name order. Symlinks are reported but not
+ * followed, and directories matching an ignore pattern are not entered.
+ */
+export async function* walkWorkspace(
+  rootDir: string,
+  startDir: string,
+  options: { ignore: RegExp[]; recursive: boolean }
+): AsyncGenerator<WorkspaceEntry> {
+  const isIgnored = (relative: string, directory: boolean) =>
+    options.ignore.some(pattern => pattern.test(relative) || (directory && pattern.test(`${relative}/`)));
+
+  const entries = await fs.promises.readdir(startDir, { withFileTypes: true });
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    const absolute = path.join(startDir, entry.name);
+    const relative = toPosixPath(path.relative(rootDir, absolute));
+    if (entry.isSymbolicLink()) {
+      if (!isIgnored(relative, false)) yield { path: relative, type: 'symlink' };
+    } else if (entry.isDirectory()) {
+      if (isIgnored(relative, true)) continue;
+      yield { path: relative, type: 'directory' };
+      if (options.recursive) yield* walkWorkspace(rootDir, absolute, options);
+    } else if (entry.isFile()) {
+      if (isIgnored(relative, false)) continue;
+      const { size } = await fs.promises.stat(absolute);
+      yield { path: relative, type: 'file', size };
+    }
+  }
+}
@@ -0,0 +1,140 @@
+export interface PatchHunk {
+  oldStart: number;                    // 1-based; 0 when the hunk adds to an empty file
+  lines: string[];                     // With their ' ', '-', '+' or '\' prefix
+}
+
+// Paths are undefined when the patch has no ---/+++ header and null for /dev/null
+export interface FilePatch {
+  oldPath?: string | null;
+  newPath?: string | null;
+  hunks: PatchHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+function parseHeaderPath(line: string): string | null {
+  const value = line.slice(4).split('\t')[0].trim();
+  if (value === '/dev/null') return null;
+  return value.replace(/^[ab]\//, '');
+}
+
+const isFileHeader = (lines: string[], index: number) =>
+  lines[index]?.startsWith('--- ') && lines[index + 1]?.startsWith('+++ ');
+
+/**
+ * Parses a unified diff, as written by `git diff` or `diff -u`, into one patch per file.
+ * Hunk line counts are not trusted: a hunk runs until the next hunk or file header,
+ * since models often get the counts wrong.
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  const files: FilePatch[] = [];
+  let current: FilePatch | undefined;
+  let hunk: PatchHunk | undefined;
+
+  const closeHunk = () => {
+    // Blank lines at the end are usually the end of the patch text, not context
+    while (hunk && hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1] === '') hunk.lines.pop();
+    hunk = undefined;
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (isFileHeader(lines, index)) {
+      closeHunk();
+      current = { oldPath: parseHeaderPath(line), newPath: parseHeaderPath(lines[index + 1]), hunks: [] };
+      files.push(current);
+      index++;
+      continue;
+    }
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      closeHunk();
+      if (!current) {
+        current = { hunks: [] };
+        files.push(current);
+      }
+      hunk = { oldStart: Number(header[1]), lines: [] };
+      current.hunks.push(hunk);
+      continue;
+    }
+    if (line.startsWith('diff --git ')) {
+      closeHunk();
+      continue;
+    }
+    if (hunk && (line === '' || /^[ +\-\\]/.test(line))) {
+      hunk.lines.push(line);
+    }
+  }
+  closeHunk();
+
+  if (files.length === 0 || files.every(file => file.hunks.length === 0 && file.newPath !== null)) {
+    throw new Error('Patch has no hunks; expected a unified diff with @@ hunk headers');
+  }
+  return files;
+}
+
+const sideOf = (hunk: PatchHunk, side: 'old' | 'new') => hunk.lines
+  .filter(line => !line.startsWith('\\') && !line.startsWith(side === 'old' ? '+' : '-'))
+  .map(line => line.slice(1));
+
+export function countChanges(patch: FilePatch): { added: number; removed: number } {
+  const lines = patch.hunks.flatMap(hunk => hunk.lines);
+  return {
+    added: lines.filter(line => line.startsWith('+')).length,
+    removed: lines.filter(line => line.startsWith('-')).length
+  };
+}
+
+function matchesAt(lines: string[], expected: string[], at: number, loose: boolean) {
+  if (at < 0 || at + expected.length > lines.length) return false;
+  return expected.every((line, offset) =>
+    loose ? lines[at + offset].trimEnd() === line.trimEnd() : lines[at + offset] === line
+  );
+}
+
+// The position nearest the expected one, at or after `from`; trailing whitespace is ignored as a last resort
+function locate(lines: string[], expected: string[], preferred: number, from: number): number {
+  for (const loose of [false, true]) {
+    for (let distance = 0; distance <= lines.length; distance++) {
+      for (const at of distance === 0 ? [preferred] : [preferred - distance, preferred + distance]) {
+        if (at >= from && matchesAt(lines, expected, at, loose)) return at;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Applies one file's hunks to its content (null for a new file). Each hunk's context
+ * must be found in order; it may have moved, as long as it is unchanged.
+ */
+export function applyFilePatch(content: string | null, patch: FilePatch, displayPath: string): string {
+  const original = content ?? '';
+  const lines = original === '' ? [] : original.replace(/\n$/, '').split('\n');
+  let endsWithNewline = content === null || original === '' || original.endsWith('\n');
+  let from = 0;
+  let shift = 0;
+
+  patch.hunks.forEach((hunk, index) => {
+    const before = sideOf(hunk, 'old');
+    const after = sideOf(hunk, 'new');
+    // A hunk without old lines inserts after line `oldStart`
+    const preferred = Math.max(0, (before.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + shift);
+    const at = before.length === 0 ? Math.min(Math.max(preferred, from), lines.length) : locate(lines, before, preferred, from);
+    if (at === -1) {
+      throw new Error(`Hunk ${index + 1} does not apply to ${displayPath}: its context was not found near line ${hunk.oldStart}`);
+    }
+    lines.splice(at, before.length, ...after);
+    from = at + after.length;
+    shift += after.length - before.length;
+
+    // "\ No newline at end of file" after a removed line means the new last line gets one
+    hunk.lines.forEach((line, position) => {
+      if (line.startsWith('\\')) endsWithNewline = (hunk.lines[position - 1] ?? '').startsWith('-');
+    });
+  });
+
+  if (lines.length === 0) return '';
+  return lines.join('\n') + (endsWithNewline ? '\n' : '');
+}
@@ -0,0 +1,40 @@
+import type { ToolConfig } from '../types.config';
+
+export interface WorkspaceOptions {
+  rootDir: string;                     // Every path is resolved inside this directory
+  dryRun?: boolean;                    // Writes and patches are checked and reported but never applied
+  readOnly?: boolean;                  // Leaves out write-file and apply-patch
+  ignore?: string[];                   // Globs skipped by list, glob and grep (default node_modules/** and .git/**)
+  maxReadBytes?: number;               // Larger files are read in part (default 256 KB)
+  maxWriteBytes?: number;              // Largest file a write or patch may replace or produce (default 1 MB)
+  maxResults?: number;                 // Most paths or matches returned by a listing or search (default 200)
+  requireApprovalForWrites?: boolean;  // Writes and patches suspend the run until approved
+  onMutation?: (mutation: WorkspaceMutation) => void | Promise<void>;
+  config?: ToolConfig;                 // Tracing and logging for every tool of the workspace
+}
+
+// One file changed (or, in a dry run, that would have been) by write-file or apply-patch
+export interface WorkspaceMutation {
+  tool: 'write-file' | 'apply-patch';
+  path: string;                        // Relative to the workspace root
+  action: 'create' | 'update' | 'delete';
+  dryRun: boolean;
+  bytesBefore: number;
+  bytesAfter: number;
+  linesAdded: number;
+  linesRemoved: number;
+  sha256Before?: string;
+  sha256After?: string;
+}
+
+export interface WorkspaceEntry {
+  path: string;                        // Relative to the workspace root, with forward slashes
+  type: 'file' | 'directory' | 'symlink';
+  size?: number;                       // Files only
+}
+
+export interface WorkspaceSearchMatch {
+  path: string;
+  line: number;                        // 1-based
+  text: string;
+}
@@ -0,0 +1,375 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as readline from 'node:readline';
+import { z } from 'zod';
+import { createTool } from '../types.config';
+import { resolveSandboxedPath } from '../sandbox-path';
+import { globToRegExp, toPosixPath, walkWorkspace } from './glob';
+import { applyFilePatch, countChanges, parseUnifiedDiff } from './patch';
+import type { WorkspaceEntry, WorkspaceMutation, WorkspaceOptions, WorkspaceSearchMatch } from './types';
+
+const DEFAULT_IGNORE = ['**/node_modules/**', '**/.git/**'];
+const DEFAULT_MAX_READ_BYTES = 256 * 1024;
+const DEFAULT_MAX_WRITE_BYTES = 1024 * 1024;
+const DEFAULT_MAX_RESULTS = 200;
+const MAX_SEARCH_FILE_BYTES = 1024 * 1024;   // grep skips larger files
+const MAX_MATCH_LENGTH = 300;
+
+const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+
+const isBinary = (buffer: Buffer) => buffer.subarray(0, 8000).includes(0);
+
+async function statFile(file: string, displayPath: string): Promise<fs.Stats | null> {
+  let stats: fs.Stats;
+  try {
+    stats = await fs.promises.stat(file);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+  if (stats.isDirectory()) throw new Error(`${displayPath} is a directory`);
+  return stats;
+}
+
+// Files larger than maxBytes are refused before they are read
+async function readText(file: string, displayPath: string, maxBytes: number): Promise<string | null> {
+  const stats = await statFile(file, displayPath);
+  if (!stats) return null;
+  if (stats.size > maxBytes) throw new Error(`${displayPath} is ${stats.size} bytes, more than the limit of ${maxBytes}`);
+
+  const buffer = await fs.promises.readFile(file);
+  if (isBinary(buffer)) throw new Error(`${displayPath} is a binary file`);
+  return buffer.toString('utf8');
+}
+
+// Streams the file, keeping at most maxBytes of the requested lines
+async function readLineRange(
+  file: string,
+  displayPath: string,
+  startLine: number,
+  endLine: number | undefined,
+  maxBytes: number
+) {
+  if (!await statFile(file, displayPath)) return null;
+  const handle = await fs.promises.open(file, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read({ buffer: Buffer.alloc(8000), position: 0 });
+    if (isBinary(buffer.subarray(0, bytesRead))) throw new Error(`${displayPath} is a binary file`);
+  } finally {
+    await handle.close();
+  }
+
+  let content = '';
+  let bytes = 0;
+  let truncated = false;
+  let totalLines = 0;
+  const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+  for await (const line of lines) {
+    totalLines++;
+    if (truncated || totalLines < startLine || (endLine !== undefined && totalLines > endLine)) continue;
+    const piece = totalLines === startLine ? line : `\n${line}`;
+    content += piece;
+    bytes += Buffer.byteLength(piece);
+    if (bytes > maxBytes) {
+      content = Buffer.from(content).subarray(0, maxBytes).toString('utf8');
+      truncated = true;
+    }
+  }
+  return { content, totalLines, truncated };
+}
+
+// Lines only on one side, counted with repeats; close enough to a diff for a summary
+function lineChanges(before: string, after: string): { linesAdded: number; linesRemoved: number } {
+  const remaining = new Map<string, number>();
+  const splitLines = (content: string) => content === '' ? [] : content.replace(/\n$/, '').split('\n');
+  const beforeLines = splitLines(before);
+  const afterLines = splitLines(after);
+  for (const line of beforeLines) remaining.set(line, (remaining.get(line) ?? 0) + 1);
+  let kept = 0;
+  for (const line of afterLines) {
+    const count = remaining.get(line) ?? 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+      kept++;
+    }
+  }
+  return { linesAdded: afterLines.length - kept, linesRemoved: beforeLines.length - kept };
+}
+
+/**
+ * File tools scoped to a workspace directory: read-file, list-directory, glob, grep,
+ * write-file and apply-patch. Paths are relative to `rootDir`; anything resolving
+ * outside it, through `..` or a symlink, fails the call.
+ *
+ * Writes and patches return a record of every file they change, so the change is kept
+ * in the tool's trace span, and report it to `onMutation`. With `dryRun` they are checked
+ * and reported without touching the disk; the model can also ask for a dry run per call.
+ *
+ * Example usage:
+ * ```typescript
+ * const agent = createAgent({
+ *   name: 'docs-editor',
+ *   model: 'openai:gpt-4o',
+ *   tools: createWorkspaceTools({ rootDir: './docs', requireApprovalForWrites: true })
+ * });
+ * ```
+ */
+export function createWorkspaceTools(options: WorkspaceOptions) {
+  const {
+    rootDir,
+    dryRun: alwaysDryRun = false,
+    readOnly = false,
+    maxReadBytes = DEFAULT_MAX_READ_BYTES,
+    maxWriteBytes = DEFAULT_MAX_WRITE_BYTES,
+    maxResults = DEFAULT_MAX_RESULTS,
+    requireApprovalForWrites = false,
+    onMutation,
+    config
+  } = options;
+  const root = path.resolve(rootDir);
+  const ignore = (options.ignore ?? DEFAULT_IGNORE).map(globToRegExp);
+
+  const resolve = (relativePath: string, allowRoot = false) => resolveSandboxedPath(root, relativePath, { allowRoot });
+  const relativeTo = (file: string) => toPosixPath(path.relative(root, file)) || '.';
+
+  async function directoryAt(relativePath: string): Promise<string> {
+    const directory = await resolve(relativePath, true);
+    const stats = await fs.promises.stat(directory).catch(() => undefined);
+    if (!stats?.isDirectory()) throw new Error(`${relativePath} is not a directory`);
+    return directory;
+  }
+
+  // Dry runs and real changes are reported the same way
+  async function recordMutations(mutations: WorkspaceMutation[]) {
+    for (const mutation of mutations) await onMutation?.(mutation);
+  }
+
+  function checkWriteSize(content: string, displayPath: string) {
+    const bytes = Buffer.byteLength(content);
+    if (bytes > maxWriteBytes) {
+      throw new Error(`${displayPath} would be ${bytes} bytes, more than the limit of ${maxWriteBytes}`);
+    }
+    return bytes;
+  }
+
+  // Dry runs change nothing, so they never wait for approval
+  const approveWrites = requireApprovalForWrites && !alwaysDryRun
+    ? ({ dryRun }: { dryRun?: boolean }) => !dryRun
+    : undefined;
+
+  const readFile = createTool({
+    name: 'read-file',
+    description: `Reads a text file in the workspace. Use startLine and endLine for part of a long file; output is cut at ${maxReadBytes} bytes.`,
+    parameters: z.object({
+      path: z.string().describe('File path relative to the workspace root'),
+      startLine: z.number().int().min(1).optional().describe('First line to read (1-based)'),
+      endLine: z.number().int().min(1).optional().describe('Last line to read, inclusive')
+    }),
+    execute: async ({ path: filePath, startLine = 1, endLine }) => {
+      const range = await readLineRange(await resolve(filePath), filePath, startLine, endLine, maxReadBytes);
+      if (range === null) throw new Error(`${filePath} does not exist`);
+
+      const { content, totalLines, truncated } = range;
+      return { path: filePath, content, startLine, endLine: Math.min(endLine ?? totalLines, totalLines), totalLines, truncated };
+    },
+    config,
+    cache: false,
+  });
+
+  const listDirectory = createTool({
+    name: 'list-directory',
+    description: 'Lists the files and directories in a workspace directory.',
+    parameters: z.object({
+      path: z.string().optional().describe('Directory relative to the workspace root (default ".", the root)'),
+      recursive: z.boolean().optional().describe('Include everything below the directory')
+    }),
+    execute: async ({ path: directoryPath = '.', recursive = false }) => {
+      const directory = await directoryAt(directoryPath);
+      const entries: WorkspaceEntry[] = [];
+      for await (const entry of walkWorkspace(root, directory, { ignore, recursive })) {
+        if (entries.length === maxResults) return { path: directoryPath, entries, truncated: true };
+        entries.push(entry);
+      }
+      return { path: directoryPath, entries, truncated: false };
+    },
+    config,
+    cache: false,
+  });
+
+  const glob = createTool({
+    name: 'glob',
+    description: 'Finds files whose path matches a glob such as "src/**/*.ts" or "*.{md,txt}".',
+    parameters: z.object({
+      pattern: z.string().describe('Glob relative to the search directory; ** matches any number of directories'),
+      path: z.string().optional().describe('Directory to search, relative to the workspace root (default ".")')
+    }),
+    execute: async ({ pattern, path: directoryPath = '.' }) => {
+      const directory = await directoryAt(directoryPath);
+      const matcher = globToRegExp(pattern);
+      const files: string[] = [];
+      for await (const entry of walkWorkspace(root, directory, { ignore, recursive: true })) {
+        if (entry.type !== 'file') continue;
+        if (!matcher.test(toPosixPath(path.relative(directory, path.join(root, entry.path))))) continue;
+        if (files.length === maxResults) return { files, truncated: true };
+        files.push(entry.path);
+      }
+      return { files, truncated: false };
+    },
+    config,
+    cache: false,
+  });
+
+  const grep = createTool({
+    name: 'grep',
+    description: 'Searches the contents of workspace files for text or a regular expression and returns matching lines.',
+    parameters: z.object({
+      query: z.string().min(1).describe('Text to find, or a regular expression when regex is true'),
+      regex: z.boolean().optional(),
+      caseSensitive: z.boolean().optional(),
+      glob: z.string().optional().describe('Only search files matching this glob, e.g. "**/*.md"'),
+      path: z.string().optional().describe('Directory to search, relative to the workspace root (default ".")')
+    }),
+    execute: async ({ query, regex = false, caseSensitive = false, glob: filter, path: directoryPath = '.' }) => {
+      const directory = await directoryAt(directoryPath);
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), caseSensitive ? '' : 'i');
+      } catch (error) {
+        throw new Error(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      const matcher = filter ? globToRegExp(filter) : undefined;
+      const matches: WorkspaceSearchMatch[] = [];
+      let filesSearched = 0;
+
+      for await (const entry of walkWorkspace(root, directory, { ignore, recursive: true })) {
+        if (entry.type !== 'file' || (entry.size ?? 0) > MAX_SEARCH_FILE_BYTES) continue;
+        if (matcher && !matcher.test(toPosixPath(path.relative(directory, path.join(root, entry.path))))) continue;
+        const buffer = await fs.promises.readFile(path.join(root, entry.path));
+        if (isBinary(buffer)) continue;
+        filesSearched++;
+
+        const lines = buffer.toString('utf8').split('\n');
+        for (let index = 0; index < lines.length; index++) {
+          if (!pattern.test(lines[index])) continue;
+          if (matches.length === maxResults) return { matches, filesSearched, truncated: true };
+          matches.push({ path: entry.path, line: index + 1, text: lines[index].slice(0, MAX_MATCH_LENGTH) });
+        }
+      }
+      return { matches, filesSearched, truncated: false };
+    },
+    config,
+    cache: false,
+  });
+
+  const writeFile = createTool({
+    name: 'write-file',
+    description: 'Creates a file in the workspace or replaces its content. Parent directories are created as needed.',
+    parameters: z.object({
+      path: z.string().describe('File path relative to the workspace root'),
+      content: z.string().describe('The complete new content of the file'),
+      createOnly: z.boolean().optional().describe('Fail instead of replacing a file that exists'),
+      dryRun: z.boolean().optional().describe('Check and report the change without writing it')
+    }),
+    execute: async ({ path: filePath, content, createOnly, dryRun }) => {
+      const file = await resolve(filePath);
+      const before = await readText(file, filePath, maxWriteBytes);
+      if (before !== null && createOnly) throw new Error(`${filePath} already exists`);
+      const bytesAfter = checkWriteSize(content, filePath);
+
+      const mutation: WorkspaceMutation = {
+        tool: 'write-file',
+        path: relativeTo(file),
+        action: before === null ? 'create' : 'update',
+        dryRun: alwaysDryRun || Boolean(dryRun),
+        bytesBefore: before === null ? 0 : Buffer.byteLength(before),
+        bytesAfter,
+        ...lineChanges(before ?? '', content),
+        sha256Before: before === null ? undefined : sha256(before),
+        sha256After: sha256(content)
+      };
+      if (!mutation.dryRun) {
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        await fs.promises.writeFile(file, content);
+      }
+      await recordMutations([mutation]);
+      return { success: true, mutations: [mutation] };
+    },
+    config,
+    cache: false,
+    requiresApproval: approveWrites,
+  });
+
+  const applyPatch = createTool({
+    name: 'apply-patch',
+    description: 'Applies a unified diff (as produced by `git diff` or `diff -u`) to files in the workspace. ' +
+      'Every hunk must apply or nothing is changed. Use /dev/null as the old path to create a file and as the new path to delete one.',
+    parameters: z.object({
+      patch: z.string().describe('The unified diff, with ---/+++ file headers and @@ hunks'),
+      path: z.string().optional().describe('File to patch when the diff has no ---/+++ headers'),
+      dryRun: z.boolean().optional().describe('Check that the patch applies and report the changes without writing them')
+    }),
+    execute: async ({ patch, path: defaultPath, dryRun }) => {
+      const filePatches = parseUnifiedDiff(patch);
+      const planned: { file: string; content: string | null; mutation: WorkspaceMutation }[] = [];
+
+      // Every file is patched in memory first, so a failing hunk leaves the workspace untouched
+      for (const filePatch of filePatches) {
+        const { oldPath, newPath } = filePatch;
+        if (oldPath && newPath && oldPath !== newPath) {
+          throw new Error(`Renaming ${oldPath} to ${newPath} is not supported; patch the file in place`);
+        }
+        const target = newPath ?? oldPath ?? defaultPath;
+        if (!target) throw new Error('The patch has no file headers; give the path of the file to patch');
+
+        const file = await resolve(target);
+        const before = await readText(file, target, maxWriteBytes);
+        if (oldPath === null && before !== null) throw new Error(`${target} already exists`);
+        if (oldPath !== null && before === null) throw new Error(`${target} does not exist`);
+        if (planned.some(entry => entry.file === file)) throw new Error(`${target} appears twice in the patch`);
+
+        const after = applyFilePatch(before, filePatch, target);
+        if (newPath === null && after !== '') {
+          throw new Error(`The patch deletes ${target} but does not remove all of its lines`);
+        }
+        const { added, removed } = countChanges(filePatch);
+        planned.push({
+          file,
+          content: newPath === null ? null : after,
+          mutation: {
+            tool: 'apply-patch',
+            path: relativeTo(file),
+            action: before === null ? 'create' : newPath === null ? 'delete' : 'update',
+            dryRun: alwaysDryRun || Boolean(dryRun),
+            bytesBefore: before === null ? 0 : Buffer.byteLength(before),
+            bytesAfter: newPath === null ? 0 : checkWriteSize(after, target),
+            linesAdded: added,
+            linesRemoved: removed,
+            sha256Before: before === null ? undefined : sha256(before),
+            sha256After: newPath === null ? undefined : sha256(after)
+          }
+        });
+      }
+
+      const mutations = planned.map(entry => entry.mutation);
+      if (!(alwaysDryRun || dryRun)) {
+        for (const { file, content } of planned) {
+          if (content === null) {
+            await fs.promises.rm(file);
+          } else {
+            await fs.promises.mkdir(path.dirname(file), { recursive: true });
+            await fs.promises.writeFile(file, content);
+          }
+        }
+      }
+      await recordMutations(mutations);
+      return { success: true, mutations };
+    },
+    config,
+    cache: false,
+    requiresApproval: approveWrites,
+  });
+
+  const readTools = { readFile, listDirectory, glob, grep };
+  return readOnly ? readTools : { ...readTools, writeFile, applyPatch };
+}
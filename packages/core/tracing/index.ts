@@ -0,0 +1,18 @@
+export type {
+  SpanEndOptions,
+  SpanLevel,
+  SpanOptions,
+  SpanType,
+  SpanUsage,
+  Trace,
+  TraceOptions,
+  Tracer,
+  TraceSpan,
+  TraceUpdate
+} from './types';
+export { createLangfuseTracer } from './langfuse/langfuse-tracer';
+export { createOtelTracer, createOtlpTracer } from './otel/otel-tracer';
+export type { OtelTracerOptions, OtlpTracerOptions } from './otel/otel-tracer';
+export { createJsonFileTracer } from './json-file/json-file-tracer';
+export type { JsonFileTracerOptions, SpanRecord, TraceRecord } from './json-file/json-file-tracer';
+export { resolveTracer } from './resolve-tracer';
@@ -0,0 +1,199 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  SpanEndOptions,
+  SpanLevel,
+  SpanOptions,
+  SpanType,
+  SpanUsage,
+  Trace,
+  TraceOptions,
+  Tracer,
+  TraceSpan
+} from '../types';
+
+export interface JsonFileTracerOptions {
+  directory: string;                   // One <traceId>.json file is written per trace
+  flushIntervalMs?: number;            // Delay before recorded spans are written (default 1000)
+}
+
+export interface SpanRecord {
+  id: string;
+  parentId?: string;
+  name: string;
+  type: SpanType;
+  model?: string;
+  input?: unknown;
+  output?: unknown;
+  metadata?: Record<string, unknown>;
+  usage?: SpanUsage;
+  level?: SpanLevel;
+  statusMessage?: string;
+  startTime: string;
+  endTime?: string;
+  durationMs?: number;
+}
+
+export interface TraceRecord {
+  id: string;
+  name: string;
+  userId?: string;
+  input?: unknown;
+  output?: unknown;
+  metadata?: Record<string, unknown>;
+  startTime: string;
+  updatedAt: string;
+  spans: SpanRecord[];
+}
+
+/**
+ * Writes each trace with its spans to a JSON file, for running fully offline.
+ * Writes are batched; call `flush` before the process exits.
+ */
+export function createJsonFileTracer({ directory, flushIntervalMs = 1000 }: JsonFileTracerOptions): Tracer {
+  const traces = new Map<string, TraceRecord>();
+  const dirty = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let writing = Promise.resolve();
+
+  const fileFor = (traceId: string) => path.join(directory, `${encodeURIComponent(traceId)}.json`);
+
+  async function read(traceId: string): Promise<TraceRecord | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(fileFor(traceId), 'utf8')) as TraceRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  // A trace id can be reused, e.g. by a resumed run in another process; keep what is already on disk
+  async function write(traceId: string) {
+    const record = traces.get(traceId);
+    if (!record) return;
+    const existing = await read(traceId);
+    const spans = new Map((existing?.spans ?? []).map(span => [span.id, span]));
+    for (const span of record.spans) spans.set(span.id, span);
+
+    const merged: TraceRecord = {
+      ...existing,
+      ...record,
+      input: record.input ?? existing?.input,
+      output: record.output ?? existing?.output,
+      metadata: { ...existing?.metadata, ...record.metadata },
+      startTime: existing?.startTime ?? record.startTime,
+      spans: [...spans.values()]
+    };
+    await fs.promises.mkdir(directory, { recursive: true });
+    const temporary = `${fileFor(traceId)}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temporary, JSON.stringify(merged, null, 2));
+    await fs.promises.rename(temporary, fileFor(traceId));
+  }
+
+  function flush() {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+    const traceIds = [...dirty];
+    dirty.clear();
+    const next = writing.then(async () => {
+      let failure: unknown;
+      for (const traceId of traceIds) {
+        try {
+          await write(traceId);
+        } catch (error) {
+          // Written again by the next flush
+          dirty.add(traceId);
+          failure ??= error;
+        }
+      }
+      // Finished traces are on disk; only keep those that may still change
+      for (const traceId of traceIds) {
+        const record = traces.get(traceId);
+        if (record?.spans.every(span => span.endTime) && !dirty.has(traceId)) traces.delete(traceId);
+      }
+      if (failure) throw failure;
+    });
+    // A failed write must not stop the flushes queued after it
+    writing = next.catch(() => undefined);
+    return next;
+  }
+
+  function touch(record: TraceRecord) {
+    record.updatedAt = new Date().toISOString();
+    traces.set(record.id, record);
+    dirty.add(record.id);
+    timer ??= setTimeout(() => {
+      flush().catch(error => console.warn('Failed to write traces', error instanceof Error ? error.message : String(error)));
+    }, flushIntervalMs);
+    timer.unref?.();
+  }
+
+  function startSpan(record: TraceRecord, options: SpanOptions, parentId?: string): TraceSpan {
+    const span: SpanRecord = {
+      id: uuidv4(),
+      parentId,
+      name: options.name,
+      type: options.type ?? 'span',
+      model: options.model,
+      input: options.input,
+      metadata: options.metadata,
+      startTime: new Date().toISOString()
+    };
+    const startedAt = Date.now();
+    record.spans.push(span);
+    touch(record);
+
+    return {
+      id: span.id,
+      traceId: record.id,
+      span: (childOptions) => startSpan(record, childOptions, span.id),
+      end: (end: SpanEndOptions = {}) => {
+        Object.assign(span, {
+          output: end.output,
+          metadata: end.metadata ? { ...span.metadata, ...end.metadata } : span.metadata,
+          usage: end.usage,
+          level: end.level,
+          statusMessage: end.statusMessage,
+          endTime: new Date().toISOString(),
+          durationMs: Date.now() - startedAt
+        });
+        touch(record);
+      }
+    };
+  }
+
+  return {
+    trace(options: TraceOptions): Trace {
+      const id = options.id ?? uuidv4();
+      const now = new Date().toISOString();
+      const record: TraceRecord = traces.get(id) ?? { id, name: options.name, startTime: now, updatedAt: now, spans: [] };
+      Object.assign(record, {
+        name: options.name,
+        userId: options.userId ?? record.userId,
+        input: options.input ?? record.input,
+        metadata: { ...record.metadata, ...options.metadata }
+      });
+      touch(record);
+
+      return {
+        id,
+        span: (spanOptions) => startSpan(record, spanOptions),
+        update: (update) => {
+          Object.assign(record, {
+            input: update.input ?? record.input,
+            output: update.output ?? record.output,
+            metadata: { ...record.metadata, ...update.metadata }
+          });
+          touch(record);
+        }
+      };
+    },
+
+    flush,
+
+    async shutdown() {
+      await flush();
+    }
+  };
+}
@@ -13,7 +13,7 @@ export async function register() {
             debug: false,
           publicKey: process.env.LANGFUSE_PUBLIC_KEY,
           secretKey: process.env.LANGFUSE_SECRET_KEY,
-          baseUrl: "https://cloud.langfuse.com"
+          baseUrl: process.env.LANGFUSE_BASE_URL ?? "https://cloud.langfuse.com"
           }
         )
     })
@@ -18,7 +18,7 @@ export function initLangfuse() {
    langfuse = new Langfuse({
     publicKey: env.LANGFUSE_PUBLIC_KEY,
     secretKey: env.LANGFUSE_SECRET_KEY,
-    baseUrl: "https://cloud.langfuse.com"
+    baseUrl: env.LANGFUSE_BASE_URL ?? "https://cloud.langfuse.com"
   });
   langfuseRegistered = true;
   return langfuse;
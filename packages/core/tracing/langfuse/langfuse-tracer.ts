@@ -0,0 +1,44 @@
+import type { Langfuse, LangfuseGenerationClient, LangfuseSpanClient, LangfuseTraceClient } from 'langfuse';
+import type { SpanEndOptions, SpanOptions, Tracer, TraceSpan } from '../types';
+
+type LangfuseParent = LangfuseTraceClient | LangfuseSpanClient;
+
+// Generations are Langfuse's own observation type, with the model and token usage
+function startSpan(parent: LangfuseParent, { type, model, ...options }: SpanOptions): TraceSpan {
+  const observation: LangfuseSpanClient | LangfuseGenerationClient = type === 'generation'
+    ? parent.generation({ ...options, model })
+    : parent.span(options);
+
+  return {
+    id: observation.id,
+    traceId: observation.traceId,
+    span: (childOptions) => startSpan(observation as LangfuseSpanClient, childOptions),
+    end: ({ usage, ...end }: SpanEndOptions = {}) => {
+      if (type === 'generation') {
+        (observation as LangfuseGenerationClient).end({ ...end, usage });
+      } else {
+        (observation as LangfuseSpanClient).end(end);
+      }
+    }
+  };
+}
+
+/**
+ * Sends traces to Langfuse
+ */
+export function createLangfuseTracer(langfuse: Langfuse): Tracer {
+  return {
+    trace: (options) => {
+      const trace = langfuse.trace(options);
+      return {
+        id: trace.id,
+        span: (spanOptions) => startSpan(trace, spanOptions),
+        update: (update) => {
+          trace.update(update);
+        }
+      };
+    },
+    flush: () => langfuse.flushAsync(),
+    shutdown: () => langfuse.shutdownAsync()
+  };
+}
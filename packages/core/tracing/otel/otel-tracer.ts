@@ -0,0 +1,169 @@
+import { context, SpanStatusCode, trace as otelTrace, TraceFlags } from '@opentelemetry/api';
+import type { Attributes, Context, Span, Tracer as OtelTracer } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { Resource } from '@opentelemetry/resources';
+import { BasicTracerProvider, BatchSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { randomBytes } from 'node:crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { SpanEndOptions, SpanOptions, Trace, Tracer, TraceSpan } from '../types';
+
+export interface OtelTracerOptions {
+  tracer?: OtelTracer;                 // Defaults to the globally registered provider's tracer
+}
+
+export interface OtlpTracerOptions {
+  url?: string;                        // Defaults to OTEL_EXPORTER_OTLP_TRACES_ENDPOINT or a local collector
+  headers?: Record<string, string>;
+  serviceName?: string;
+}
+
+// OpenTelemetry attributes are primitives; structured values are stored as JSON
+function toAttributes(prefix: string, value: unknown): Attributes {
+  if (value === undefined) return {};
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return { [prefix]: value };
+  }
+  return { [prefix]: JSON.stringify(value) };
+}
+
+function metadataAttributes(metadata: Record<string, unknown> = {}): Attributes {
+  return Object.assign({}, ...Object.entries(metadata).map(([key, value]) => toAttributes(`metadata.${key}`, value)));
+}
+
+/**
+ * Records traces as OpenTelemetry spans. Our trace ids are UUIDs, which are also valid
+ * OpenTelemetry trace ids once the dashes are removed, so a trace id reused for a
+ * resumed run lands in the same OpenTelemetry trace.
+ */
+export function createOtelTracer(options: OtelTracerOptions = {}): Tracer {
+  const tracer = options.tracer ?? otelTrace.getTracer('@ai-agents/core');
+
+  // Root spans are ended once their last child has ended, or on flush
+  const openRoots = new Set<{ span: Span; children: number }>();
+
+  function wrapSpan(span: Span, parentContext: Context, onEnd?: () => void): TraceSpan {
+    const spanContext = span.spanContext();
+    const ownContext = otelTrace.setSpan(parentContext, span);
+
+    return {
+      id: spanContext.spanId,
+      traceId: spanContext.traceId,
+      span: (childOptions: SpanOptions) => startSpan(childOptions, ownContext),
+      end: (end: SpanEndOptions = {}) => {
+        span.setAttributes({
+          ...toAttributes('output', end.output),
+          ...metadataAttributes(end.metadata),
+          ...(end.level && { level: end.level }),
+          ...(end.usage && {
+            'gen_ai.usage.input_tokens': end.usage.promptTokens,
+            'gen_ai.usage.output_tokens': end.usage.completionTokens
+          })
+        });
+        if (end.level === 'ERROR') {
+          span.setStatus({ code: SpanStatusCode.ERROR, message: end.statusMessage });
+        } else {
+          span.setStatus({ code: SpanStatusCode.OK });
+          if (end.statusMessage) span.setAttribute('statusMessage', end.statusMessage);
+        }
+        span.end();
+        onEnd?.();
+      }
+    };
+  }
+
+  function startSpan(spanOptions: SpanOptions, parentContext: Context, onEnd?: () => void): TraceSpan {
+    const span = tracer.startSpan(
+      spanOptions.name,
+      {
+        attributes: {
+          ...toAttributes('input', spanOptions.input),
+          ...metadataAttributes(spanOptions.metadata),
+          ...(spanOptions.type && { 'span.type': spanOptions.type }),
+          ...toAttributes('gen_ai.request.model', spanOptions.model)
+        }
+      },
+      parentContext
+    );
+    return wrapSpan(span, parentContext, onEnd);
+  }
+
+  return {
+    trace(traceOptions): Trace {
+      const id = traceOptions.id ?? uuidv4();
+      const traceContext = otelTrace.setSpanContext(context.active(), {
+        traceId: id.replace(/-/g, ''),
+        spanId: randomBytes(8).toString('hex'),
+        traceFlags: TraceFlags.SAMPLED,
+        isRemote: true
+      });
+
+      const rootSpan = tracer.startSpan(
+        traceOptions.name,
+        {
+          attributes: {
+            ...toAttributes('input', traceOptions.input),
+            ...toAttributes('user.id', traceOptions.userId),
+            ...metadataAttributes(traceOptions.metadata)
+          }
+        },
+        traceContext
+      );
+      const root = { span: rootSpan, children: 0 };
+      openRoots.add(root);
+      const rootContext = otelTrace.setSpan(traceContext, rootSpan);
+
+      // Deferred so that updates made right after the last span ends are still recorded
+      const childEnded = () => {
+        root.children--;
+        setTimeout(() => {
+          if (root.children === 0 && openRoots.delete(root)) rootSpan.end();
+        }, 0).unref?.();
+      };
+
+      return {
+        id,
+        span: (spanOptions) => {
+          root.children++;
+          return startSpan(spanOptions, rootContext, childEnded);
+        },
+        update: (update) => {
+          rootSpan.setAttributes({
+            ...toAttributes('input', update.input),
+            ...toAttributes('output', update.output),
+            ...metadataAttributes(update.metadata)
+          });
+        }
+      };
+    },
+
+    async flush() {
+      for (const root of openRoots) {
+        root.span.end();
+      }
+      openRoots.clear();
+    }
+  };
+}
+
+/**
+ * Exports traces over OTLP/HTTP with its own tracer provider, independent of any global setup
+ */
+export function createOtlpTracer(options: OtlpTracerOptions = {}): Tracer {
+  const provider = new BasicTracerProvider({
+    resource: new Resource({ 'service.name': options.serviceName ?? 'ai-agents' })
+  });
+  provider.addSpanProcessor(new BatchSpanProcessor(new OTLPTraceExporter({ url: options.url, headers: options.headers })));
+  const tracer = createOtelTracer({ tracer: provider.getTracer('@ai-agents/core') });
+
+  return {
+    trace: tracer.trace,
+    flush: async () => {
+      await tracer.flush();
+      await provider.forceFlush();
+    },
+    shutdown: async () => {
+      await tracer.flush();
+      await provider.shutdown();
+    }
+  };
+}
@@ -0,0 +1,11 @@
+import type { Langfuse } from 'langfuse';
+import { createLangfuseTracer } from './langfuse/langfuse-tracer';
+import type { Tracer } from './types';
+
+/**
+ * Picks the tracer for a run: an explicit tracer, otherwise the Langfuse client
+ * that agents, routers and workflows have always accepted
+ */
+export function resolveTracer(tracer?: Tracer, langfuse?: Langfuse): Tracer | undefined {
+  return tracer ?? (langfuse ? createLangfuseTracer(langfuse) : undefined);
+}
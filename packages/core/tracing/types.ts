@@ -0,0 +1,69 @@
+export type SpanLevel = 'DEBUG' | 'DEFAULT' | 'WARNING' | 'ERROR';
+
+export type SpanType = 'span' | 'generation';
+
+export interface SpanOptions {
+  name: string;
+  type?: SpanType;                     // 'generation' marks a language model call (default 'span')
+  model?: string;                      // Model id of a generation
+  input?: unknown;
+  metadata?: Record<string, unknown>;
+}
+
+export interface SpanUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface SpanEndOptions {
+  output?: unknown;
+  metadata?: Record<string, unknown>;
+  usage?: SpanUsage;                   // Token usage of a generation
+  level?: SpanLevel;                   // WARNING and ERROR mark the span as degraded or failed
+  statusMessage?: string;
+}
+
+export interface TraceOptions {
+  id?: string;                         // Reusing an id continues the trace, e.g. for a resumed run
+  name: string;
+  userId?: string;
+  input?: unknown;
+  metadata?: Record<string, unknown>;
+}
+
+export interface TraceUpdate {
+  input?: unknown;
+  output?: unknown;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A unit of work inside a trace; child spans are created beneath it
+ */
+export interface TraceSpan {
+  id: string;
+  traceId: string;
+  span: (options: SpanOptions) => TraceSpan;
+  end: (options?: SpanEndOptions) => void;
+}
+
+/**
+ * The root of a span tree, usually one agent or workflow run
+ */
+export interface Trace {
+  id: string;
+  span: (options: SpanOptions) => TraceSpan;
+  update: (update: TraceUpdate) => void;
+}
+
+/**
+ * A tracing backend. Agents, tools, routers and workflows create the same spans
+ * on every backend. Spans start when they are created and end with `end`, so
+ * backends record real start and end times.
+ */
+export interface Tracer {
+  trace: (options: TraceOptions) => Trace;
+  flush: () => Promise<void>;          // Sends or writes everything recorded so far
+  shutdown?: () => Promise<void>;
+}
@@ -0,0 +1,14 @@
+export type {
+  NodeOutput,
+  Workflow,
+  WorkflowConfig,
+  WorkflowEdge,
+  WorkflowEvent,
+  WorkflowNode,
+  WorkflowNodeContext,
+  WorkflowResult,
+  WorkflowRunOptions,
+  WorkflowState
+} from './types';
+export { createWorkflow } from './workflow';
+export { agentNode, functionNode, toolNode } from './nodes';
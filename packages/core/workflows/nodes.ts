@@ -0,0 +1,95 @@
+import type { CoreTool } from 'ai';
+import type { z } from 'zod';
+import { isAgentTool } from '../agents/tool-wrapper';
+import type { Agent, AgentTool } from '../agents/types';
+import type { WorkflowNode, WorkflowNodeContext, WorkflowState } from './types';
+
+interface NodeOptions<TInput> {
+  inputSchema?: z.ZodType<TInput>;
+  mapInput?: (state: WorkflowState) => TInput;
+}
+
+// Only what nested runs should inherit from the workflow
+function nestedContext(context: WorkflowNodeContext) {
+  return {
+    userId: context.userId,
+    traceId: context.traceId,
+    logging: context.logging,
+    metadata: { ...context.metadata, workflowNode: context.node },
+    parentSpan: context.span,
+    agentDepth: context.agentDepth
+  };
+}
+
+/**
+ * Runs an agent with the node input as its prompt. With an output schema the node
+ * outputs the agent's validated structured output, otherwise its text.
+ */
+export function agentNode<TInput = unknown, TOutput = string>(
+  agent: Agent<any>,
+  options: NodeOptions<TInput> & {
+    toPrompt?: (input: TInput) => string;    // Defaults to the input itself, or the input as JSON
+    outputSchema?: z.ZodType<TOutput>;
+  } = {}
+): WorkflowNode<TInput, TOutput> {
+  const { toPrompt = (input: TInput) => (typeof input === 'string' ? input : JSON.stringify(input)), outputSchema } = options;
+
+  return {
+    kind: 'agent',
+    inputSchema: options.inputSchema,
+    outputSchema,
+    mapInput: options.mapInput,
+    async run(input, context) {
+      const response = await agent.generate({
+        prompt: toPrompt(input),
+        outputSchema,
+        context: nestedContext(context)
+      });
+      if (response.status === 'suspended') {
+        throw new Error(`Agent ${agent.config.name} was suspended for tool approval, which workflow nodes do not support`);
+      }
+      return (outputSchema ? response.structuredOutput : response.text) as TOutput;
+    }
+  };
+}
+
+/**
+ * Calls a tool with the node input as its arguments, validated against the tool's parameters
+ */
+export function toolNode<TInput = unknown, TOutput = unknown>(
+  tool: AgentTool<TInput, TOutput> | CoreTool,
+  options: Omit<NodeOptions<TInput>, 'inputSchema'> & { outputSchema?: z.ZodType<TOutput> } = {}
+): WorkflowNode<TInput, TOutput> {
+  if (!tool.execute) {
+    throw new Error('Workflow tool nodes need a tool with an execute function');
+  }
+
+  return {
+    kind: 'tool',
+    inputSchema: tool.parameters as z.ZodType<TInput>,
+    outputSchema: options.outputSchema,
+    mapInput: options.mapInput,
+    async run(input, context) {
+      if (isAgentTool(tool)) {
+        return tool.execute(input, nestedContext(context));
+      }
+      return (tool as CoreTool).execute?.(input, { toolCallId: `workflow-${context.node}`, messages: [] });
+    }
+  };
+}
+
+/**
+ * Runs a plain function; use it for glue code such as merging or reshaping outputs
+ */
+export function functionNode<TInput = unknown, TOutput = unknown>(
+  run: (input: TInput, context: WorkflowNodeContext) => TOutput | Promise<TOutput>,
+  options: NodeOptions<TInput> & { outputSchema?: z.ZodType<TOutput> } = {}
+): WorkflowNode<TInput, TOutput> {
+  return {
+    kind: 'function',
+    inputSchema: options.inputSchema,
+    outputSchema: options.outputSchema,
+    mapInput: options.mapInput,
+    run: async (input, context) => run(input, context)
+  };
+}
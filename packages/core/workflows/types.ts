@@ -0,0 +1,76 @@
+import type { Langfuse } from 'langfuse';
+import type { z } from 'zod';
+import type { Logger, ToolContext } from '../agents/types';
+import type { Tracer, TraceSpan } from '../tracing/types';
+
+// Outputs of the nodes that have finished so far, and the workflow input
+export interface WorkflowState<TInput = unknown> {
+  input: TInput;
+  outputs: Record<string, unknown>;
+}
+
+export interface WorkflowNodeContext extends ToolContext {
+  node: string;
+  state: WorkflowState;
+  span?: TraceSpan;                   // The node's span; nested agent runs are traced beneath it
+  log: Logger;
+}
+
+/**
+ * A step of a workflow. By default a node receives the workflow input when it has no
+ * incoming edges, its predecessor's output when it has one, and an object of outputs
+ * keyed by node name when it joins several branches.
+ */
+export interface WorkflowNode<TInput = any, TOutput = any> {
+  kind: 'agent' | 'tool' | 'function';
+  run: (input: TInput, context: WorkflowNodeContext) => Promise<TOutput>;
+  inputSchema?: z.ZodType<TInput>;    // Validated before the node runs
+  outputSchema?: z.ZodType<TOutput>;  // Validated before edges are evaluated
+  mapInput?: (state: WorkflowState) => TInput;
+}
+
+export type NodeOutput<TNode> = TNode extends WorkflowNode<infer _TInput, infer TOutput> ? TOutput : never;
+
+// An edge is taken when its source finished and `when` (if any) returns true
+export type WorkflowEdge<TNodes extends Record<string, WorkflowNode>> = {
+  [K in keyof TNodes & string]: {
+    from: K;
+    to: keyof TNodes & string;
+    when?: (output: NodeOutput<TNodes[K]>, state: WorkflowState) => boolean;
+  };
+}[keyof TNodes & string];
+
+export interface WorkflowConfig<TInput, TNodes extends Record<string, WorkflowNode>> {
+  name: string;
+  nodes: TNodes;
+  edges: WorkflowEdge<TNodes>[];
+  inputSchema?: z.ZodType<TInput>;
+  tracer?: Tracer;                    // Creates a trace per run unless one is passed in the context
+  langfuse?: Langfuse;                // Shorthand for tracer: createLangfuseTracer(langfuse)
+}
+
+export interface WorkflowRunOptions {
+  context?: ToolContext;              // Passed on to every node; its logging trace is reused
+  onEvent?: (event: WorkflowEvent) => void;
+}
+
+export interface WorkflowResult {
+  output: unknown;                    // Output of the last node, or outputs keyed by node when several branches end
+  outputs: Record<string, unknown>;
+  skipped: string[];                  // Nodes none of whose incoming edges were taken
+  traceId?: string;
+}
+
+export type WorkflowEvent =
+  | { type: 'workflow-start'; content: { name: string; traceId?: string } }
+  | { type: 'node-start'; content: { node: string; kind: WorkflowNode['kind']; input: unknown } }
+  | { type: 'node-end'; content: { node: string; output: unknown; durationMs: number } }
+  | { type: 'node-skipped'; content: { node: string } }
+  | { type: 'node-error'; content: { node: string; message: string } }
+  | { type: 'workflow-complete'; content: { name: string; output: unknown } }
+  | { type: 'workflow-error'; content: { name: string; node: string; message: string } };
+
+export interface Workflow<TInput> {
+  config: WorkflowConfig<TInput, Record<string, WorkflowNode>>;
+  run: (input: TInput, options?: WorkflowRunOptions) => Promise<WorkflowResult>;
+}
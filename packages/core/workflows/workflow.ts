@@ -0,0 +1,273 @@
+import type { z } from 'zod';
+import { safeTraceOperation } from '../agents/utils';
+import { bindLogger } from '../logging/logger';
+import { resolveTracer } from '../tracing/resolve-tracer';
+import type { Trace, TraceSpan } from '../tracing/types';
+import type {
+  Workflow,
+  WorkflowConfig,
+  WorkflowEdge,
+  WorkflowEvent,
+  WorkflowNode,
+  WorkflowResult,
+  WorkflowRunOptions,
+  WorkflowState
+} from './types';
+
+type Edge = WorkflowEdge<Record<string, WorkflowNode>>;
+
+function validate<T>(schema: z.ZodType<T>, value: unknown, description: string): T {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new Error(`${description} failed validation: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Checks that every edge connects known nodes and that the graph has no cycles
+ */
+function validateGraph(name: string, nodes: string[], edges: Edge[]) {
+  for (const edge of edges) {
+    for (const end of [edge.from, edge.to]) {
+      if (!nodes.includes(end)) {
+        throw new Error(`Workflow ${name} has an edge to or from unknown node "${end}"`);
+      }
+    }
+  }
+
+  // Kahn's algorithm: nodes left unsorted are part of a cycle
+  const inDegree = new Map(nodes.map(node => [node, edges.filter(edge => edge.to === node).length]));
+  const queue = nodes.filter(node => inDegree.get(node) === 0);
+  let sorted = 0;
+  while (queue.length > 0) {
+    const node = queue.shift() as string;
+    sorted++;
+    for (const edge of edges.filter(edge => edge.from === node)) {
+      const remaining = (inDegree.get(edge.to) ?? 0) - 1;
+      inDegree.set(edge.to, remaining);
+      if (remaining === 0) queue.push(edge.to);
+    }
+  }
+  if (sorted < nodes.length) {
+    throw new Error(`Workflow ${name} contains a cycle; workflows must be acyclic`);
+  }
+}
+
+/**
+ * Creates a workflow: a graph of agent, tool and function nodes.
+ * A node runs once all its predecessors have finished or been skipped and at least one
+ * of its incoming edges was taken; nodes that become ready together run in parallel.
+ * Every node's input and output are validated against its schemas and traced as a
+ * child span of the workflow span.
+ *
+ * Example usage:
+ * ```typescript
+ * const workflow = createWorkflow({
+ *   name: 'content',
+ *   nodes: {
+ *     research: agentNode(researchAgent, { outputSchema: researchSchema }),
+ *     strategy: agentNode(strategyAgent, { outputSchema: strategySchema }),
+ *     format: agentNode(formatterAgent)
+ *   },
+ *   edges: [
+ *     { from: 'research', to: 'strategy' },
+ *     { from: 'strategy', to: 'format', when: (strategy) => strategy.approved }
+ *   ]
+ * });
+ *
+ * const { output } = await workflow.run('AI development trends');
+ * ```
+ */
+export function createWorkflow<TInput, TNodes extends Record<string, WorkflowNode>>(
+  config: WorkflowConfig<TInput, TNodes>
+): Workflow<TInput> {
+  const { name } = config;
+  const nodes: Record<string, WorkflowNode> = config.nodes;
+  const edges = config.edges as Edge[];
+  const nodeNames = Object.keys(nodes);
+  validateGraph(name, nodeNames, edges);
+
+  const incoming = (node: string) => edges.filter(edge => edge.to === node);
+  const outgoing = (node: string) => edges.filter(edge => edge.from === node);
+
+  return {
+    config: config as unknown as Workflow<TInput>['config'],
+
+    async run(input: TInput, options: WorkflowRunOptions = {}): Promise<WorkflowResult> {
+      const logging = options.context?.logging;
+      const emit = (event: WorkflowEvent) => options.onEvent?.(event);
+
+      const workflowInput = config.inputSchema
+        ? validate(config.inputSchema, input, `Input of workflow ${name}`)
+        : input;
+
+      // Reuse the caller's trace, or create one when the workflow has a tracer
+      const tracer = resolveTracer(config.tracer ?? logging?.tracer, config.langfuse ?? logging?.langfuse);
+      let trace: Trace | undefined = logging?.trace;
+      if (!trace && tracer) {
+        trace = await safeTraceOperation(
+          async () => tracer.trace({
+            name: `${name}-workflow`,
+            userId: options.context?.userId,
+            input: workflowInput
+          }),
+          'Failed to create trace'
+        );
+      }
+
+      const workflowSpan: TraceSpan | undefined = await safeTraceOperation(
+        async () => (options.context?.parentSpan ?? trace)?.span({
+          name: `${name}-workflow`,
+          input: { input: workflowInput, nodes: nodeNames }
+        }),
+        'Failed to create workflow span'
+      );
+
+      const traceId = trace?.id ?? options.context?.traceId;
+      const log = bindLogger(logging?.logger, { workflow: name, traceId });
+      const context = {
+        ...options.context,
+        traceId,
+        logging: { ...logging, tracer, trace }
+      };
+
+      const state: WorkflowState = { input: workflowInput, outputs: {} };
+      const status = new Map<string, 'pending' | 'running' | 'done' | 'skipped'>(
+        nodeNames.map(node => [node, 'pending'])
+      );
+      const taken = new Set<Edge>();
+      const skipped: string[] = [];
+      const running = new Set<Promise<void>>();
+      let failure: { node: string; error: unknown } | undefined;
+
+      log.info('Starting workflow', { workflow: name, nodes: nodeNames });
+      emit({ type: 'workflow-start', content: { name, traceId: context.traceId } });
+
+      // One taken incoming edge passes its source's output; several pass outputs keyed by node
+      const defaultInput = (node: string) => {
+        const sources = incoming(node).filter(edge => taken.has(edge)).map(edge => edge.from);
+        if (incoming(node).length === 0) return state.input;
+        if (sources.length === 1) return state.outputs[sources[0]];
+        return Object.fromEntries(sources.map(source => [source, state.outputs[source]]));
+      };
+
+      const runNode = async (node: string) => {
+        const definition = nodes[node];
+        const startedAt = Date.now();
+        const nodeLog = bindLogger(log, { node });
+        let span: TraceSpan | undefined;
+
+        try {
+          const rawInput = definition.mapInput ? definition.mapInput(state) : defaultInput(node);
+          const nodeInput = definition.inputSchema
+            ? validate(definition.inputSchema, rawInput, `Input of node "${node}"`)
+            : rawInput;
+
+          span = workflowSpan?.span({ name: `workflow-node-${node}`, input: nodeInput, metadata: { kind: definition.kind } });
+          nodeLog.debug(`Workflow node start: ${node}`, { input: nodeInput });
+          emit({ type: 'node-start', content: { node, kind: definition.kind, input: nodeInput } });
+
+          // Agents and workflows run by the node log with its bindings
+          const rawOutput = await definition.run(nodeInput, {
+            ...context,
+            ...(logging?.logger && { logging: { ...context.logging, logger: nodeLog } }),
+            node,
+            state,
+            span,
+            log: nodeLog
+          });
+          const output = definition.outputSchema
+            ? validate(definition.outputSchema, rawOutput, `Output of node "${node}"`)
+            : rawOutput;
+
+          state.outputs[node] = output;
+          for (const edge of outgoing(node)) {
+            if (!edge.when || edge.when(output, state)) {
+              taken.add(edge);
+            }
+          }
+          status.set(node, 'done');
+
+          const durationMs = Date.now() - startedAt;
+          nodeLog.debug(`Workflow node end: ${node}`, { output, durationMs });
+          emit({ type: 'node-end', content: { node, output, durationMs } });
+          span?.end({ output, metadata: { durationMs } });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+
+          nodeLog.error(`Workflow node error: ${node}`, { error: message });
+          emit({ type: 'node-error', content: { node, message } });
+          span?.end({ level: 'ERROR', statusMessage: message });
+
+          failure ??= { node, error };
+        }
+      };
+
+      // Starts every node whose predecessors have settled; skipping a node can settle others
+      const schedule = () => {
+        for (let changed = true; changed && !failure;) {
+          changed = false;
+          for (const node of nodeNames) {
+            const edgesIn = incoming(node);
+            const ready = status.get(node) === 'pending' &&
+              edgesIn.every(edge => ['done', 'skipped'].includes(status.get(edge.from) as string));
+            if (!ready) continue;
+
+            if (edgesIn.length > 0 && !edgesIn.some(edge => taken.has(edge))) {
+              status.set(node, 'skipped');
+              skipped.push(node);
+              emit({ type: 'node-skipped', content: { node } });
+              changed = true;
+              continue;
+            }
+
+            status.set(node, 'running');
+            const promise: Promise<void> = runNode(node).then(() => {
+              running.delete(promise);
+              schedule();
+            });
+            running.add(promise);
+          }
+        }
+      };
+
+      schedule();
+      while (running.size > 0) {
+        await Promise.race(running);
+      }
+
+      if (failure) {
+        const message = failure.error instanceof Error ? failure.error.message : String(failure.error);
+
+        log.error('Workflow failed', { workflow: name, node: failure.node, error: message });
+        emit({ type: 'workflow-error', content: { name, node: failure.node, message } });
+        await safeTraceOperation(
+          async () => workflowSpan?.end({ level: 'ERROR', statusMessage: message, output: { failedNode: failure?.node } }),
+          'Failed to log workflow error'
+        );
+        throw new Error(`Workflow ${name} failed at node "${failure.node}": ${message}`, { cause: failure.error });
+      }
+
+      // The output comes from the nodes that ended their branch
+      const finished = nodeNames.filter(node => status.get(node) === 'done' && outgoing(node).every(edge => !taken.has(edge)));
+      const output = finished.length === 1
+        ? state.outputs[finished[0]]
+        : Object.fromEntries(finished.map(node => [node, state.outputs[node]]));
+
+      log.info('Workflow complete', { workflow: name, skipped });
+      emit({ type: 'workflow-complete', content: { name, output } });
+      await safeTraceOperation(
+        async () => {
+          workflowSpan?.end({ output: { output, skipped } });
+          if (trace && trace !== logging?.trace) {
+            trace.update({ output });
+          }
+        },
+        'Failed to update workflow trace'
+      );
+
+      return { output, outputs: state.outputs, skipped, traceId: context.traceId };
+    }
+  };
+}
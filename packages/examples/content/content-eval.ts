@@ -0,0 +1,61 @@
+import { config } from 'dotenv';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createAgent } from '../../core/agents/base-agent';
+import {
+  compareEvalReports,
+  formatEvalReport,
+  llmJudge,
+  loadDataset,
+  regexMatch,
+  runEval,
+  toolCalls
+} from '../../core/evals/index';
+import type { EvalReport } from '../../core/evals/index';
+import { createJsonFileTracer } from '../../core/tracing/index';
+import { RESEARCH_PROMPT } from './prompts';
+import { audienceTool, researchTool } from './tools';
+
+// Load environment variables
+config();
+
+const BASELINE = path.join(__dirname, 'content-eval.baseline.json');
+
+const researchAgent = createAgent({
+  name: 'research-agent',
+  model: 'openai:gpt-4o',
+  tools: { research: researchTool, analyzeAudience: audienceTool },
+  systemPrompt: RESEARCH_PROMPT
+});
+
+async function runContentEval() {
+  const report = await runEval({
+    name: 'research-agent',
+    agent: researchAgent,
+    dataset: await loadDataset(path.join(__dirname, 'content-eval.jsonl')),
+    scorers: [toolCalls(), regexMatch(), llmJudge({ model: 'openai:gpt-4o-mini' })],
+    concurrency: 2,
+    tracer: createJsonFileTracer({ directory: './traces' }),
+    onCaseComplete: (result) => console.log(`${result.passed ? '✅' : '❌'} ${result.id}`)
+  });
+
+  console.log(formatEvalReport(report));
+
+  // Compare with the last saved run; pass --save to make this run the baseline
+  if (fs.existsSync(BASELINE)) {
+    const baseline = JSON.parse(fs.readFileSync(BASELINE, 'utf8')) as EvalReport;
+    const regressions = compareEvalReports(baseline, report);
+    for (const regression of regressions) {
+      console.log(`⚠️ Regression in ${regression.id}${regression.scorer ? ` (${regression.scorer})` : ''}: ${regression.baseline} -> ${regression.current}`);
+    }
+    if (regressions.length > 0) process.exitCode = 1;
+  }
+  if (process.argv.includes('--save')) {
+    fs.writeFileSync(BASELINE, JSON.stringify(report, null, 2));
+  }
+}
+
+runContentEval().catch(error => {
+  console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
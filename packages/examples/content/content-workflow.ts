@@ -0,0 +1,112 @@
+import { config } from 'dotenv';
+import { Langfuse } from 'langfuse';
+import { z } from 'zod';
+import { createAgent } from '../../core/agents/base-agent';
+import { agentNode, createWorkflow, functionNode, toolNode } from '../../core/workflows/index';
+import { audienceTool, researchTool, strategyTool } from './tools';
+import { FORMATTER_PROMPT, RESEARCH_PROMPT, STRATEGY_PROMPT } from './prompts';
+
+// Load environment variables
+config();
+
+const requestSchema = z.object({
+  topic: z.string(),
+  platform: z.enum(['linkedin', 'twitter', 'blog']),
+  contentType: z.enum(['post', 'article', 'thread'])
+});
+
+const researchSchema = z.object({
+  summary: z.string(),
+  keyPoints: z.array(z.string()),
+  sources: z.array(z.string())
+});
+
+const strategySchema = z.object({
+  tone: z.enum(['professional', 'casual', 'technical', 'engaging']),
+  sections: z.array(z.string()),
+  keywords: z.array(z.string()),
+  callToAction: z.string()
+});
+
+type ContentRequest = z.infer<typeof requestSchema>;
+
+const researchAgent = createAgent({
+  name: 'research-agent',
+  model: 'openai:gpt-4o-mini',
+  tools: { research: researchTool },
+  systemPrompt: RESEARCH_PROMPT
+});
+
+const strategyAgent = createAgent({
+  name: 'strategy-agent',
+  model: 'openai:gpt-4o',
+  tools: { fetchStrategy: strategyTool },
+  systemPrompt: STRATEGY_PROMPT
+});
+
+const formatterAgent = createAgent({
+  name: 'formatter-agent',
+  model: 'openai:gpt-4o',
+  systemPrompt: FORMATTER_PROMPT
+});
+
+// Research -> (Strategy and Audience in parallel) -> Formatter
+export const contentWorkflow = createWorkflow({
+  name: 'content-creation',
+  inputSchema: requestSchema,
+  nodes: {
+    research: agentNode(researchAgent, {
+      toPrompt: ({ topic }: ContentRequest) => `Research the topic: ${topic}`,
+      outputSchema: researchSchema
+    }),
+    strategy: agentNode(strategyAgent, {
+      mapInput: ({ input, outputs }) => ({ request: input, research: outputs.research }),
+      outputSchema: strategySchema
+    }),
+    audience: toolNode(audienceTool, {
+      mapInput: ({ input }) => {
+        const { platform, topic, contentType } = input as ContentRequest;
+        return { platform, topic, contentType };
+      }
+    }),
+    format: agentNode(formatterAgent, {
+      mapInput: ({ input, outputs }) => ({ request: input, ...outputs })
+    }),
+    // Blog posts are long enough to need a summary for social sharing
+    teaser: functionNode((content: string) => content.split('\n').slice(0, 3).join('\n'))
+  },
+  edges: [
+    { from: 'research', to: 'strategy' },
+    { from: 'research', to: 'audience' },
+    { from: 'strategy', to: 'format' },
+    { from: 'audience', to: 'format' },
+    { from: 'format', to: 'teaser', when: (_content, { input }) => (input as ContentRequest).platform === 'blog' }
+  ]
+});
+
+async function runContentWorkflow() {
+  const langfuse = new Langfuse({
+    publicKey: process.env.LANGFUSE_PUBLIC_KEY || '',
+    secretKey: process.env.LANGFUSE_SECRET_KEY || '',
+    baseUrl: process.env.LANGFUSE_BASE_URL || 'https://cloud.langfuse.com'
+  });
+
+  try {
+    const result = await contentWorkflow.run(
+      { topic: 'AI development trends in 2025', platform: 'linkedin', contentType: 'post' },
+      {
+        context: { userId: 'test-user', logging: { langfuse } },
+        onEvent: (event) => console.log(`[${event.type}]`, 'node' in event.content ? event.content.node : '')
+      }
+    );
+
+    console.log('✅ Final content:', result.output);
+    console.log('Skipped nodes:', result.skipped);
+  } catch (error) {
+    console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+  } finally {
+    await langfuse.flushAsync();
+  }
+}
+
+runContentWorkflow();
@@ -1,122 +1,79 @@
-import { createAgent } from '../../core/agents/agent.config.js';
+import { createAgent } from '../../core/agents/base-agent.js';
+import { createRouter } from '../../core/agents/router.js';
 
 import { z } from 'zod';
-import { generateObject } from 'ai';
 import { strategyTool, researchTool, audienceTool, guidelinesTool, storageTool } from './tools';
 import { ROUTER_PROMPT, STRATEGY_PROMPT, FORMATTER_PROMPT, RESEARCH_PROMPT, MANAGEMENT_PROMPT } from './prompts';
 
-// Router response schema
+// Details the router extracts for the agent it picks
 const routerSchema = z.object({
-  type: z.enum(['task', 'general_query']),
-  action: z.enum(['create_strategy', 'create_content', 'manage_content', 'general_chat']),
-  agentType: z.enum(['strategy', 'content', 'research', 'management', 'general']),
-  context: z.object({
-    topic: z.string().optional().describe('The main topic or subject matter'),
-    platform: z.enum(['linkedin', 'twitter', 'blog']).optional().describe('Target social media platform'),
-    contentType: z.enum(['post', 'article', 'thread']).optional().describe('Type of content to create'),
-    existingStrategyId: z.string().optional().describe('ID of existing content strategy'),
-    contentId: z.string().optional().describe('ID of existing content to manage'),
-    requirements: z.array(z.string()).optional().describe('Specific requirements or constraints'),
-    query: z.string().optional().describe('Original user query')
-  })
+  topic: z.string().optional().describe('The main topic or subject matter'),
+  platform: z.enum(['linkedin', 'twitter', 'blog']).optional().describe('Target social media platform'),
+  contentType: z.enum(['post', 'article', 'thread']).optional().describe('Type of content to create'),
+  existingStrategyId: z.string().optional().describe('ID of existing content strategy'),
+  contentId: z.string().optional().describe('ID of existing content to manage'),
+  requirements: z.array(z.string()).optional().describe('Specific requirements or constraints')
 });
 
-type RouterResponse = z.infer<typeof routerSchema>;
 type Agent = ReturnType<typeof createAgent>;
 
 // Specialized agents
 const createStrategyAgent = (): Agent => createAgent({
   name: 'strategy-agent',
-  model: 'gpt-4',
+  model: 'openai:gpt-4o',
   temperature: 0.7,
-  tools: [strategyTool, researchTool],
+  tools: { fetchStrategy: strategyTool, research: researchTool },
   systemPrompt: STRATEGY_PROMPT
 });
 
 const createContentAgent = (): Agent => createAgent({
   name: 'content-agent',
-  tools: [strategyTool, audienceTool, guidelinesTool, storageTool],
+  model: 'openai:gpt-4o',
+  tools: { fetchStrategy: strategyTool, analyzeAudience: audienceTool, checkGuidelines: guidelinesTool, storeContent: storageTool },
   systemPrompt: FORMATTER_PROMPT
 });
 
 const createResearchAgent = (): Agent => createAgent({
   name: 'research-agent',
-  model: 'gpt-4',
+  model: 'openai:gpt-4o',
   temperature: 0.7,
-  tools: [researchTool, audienceTool],
+  tools: { research: researchTool, analyzeAudience: audienceTool },
   systemPrompt: RESEARCH_PROMPT
 });
 
 const createManagementAgent = (): Agent => createAgent({
   name: 'management-agent',
-  model: 'gpt-4',
+  model: 'openai:gpt-4o',
   temperature: 0.7,
-  tools: [storageTool, guidelinesTool],
+  tools: { storeContent: storageTool, checkGuidelines: guidelinesTool },
   systemPrompt: MANAGEMENT_PROMPT
 });
 
-// Create router agent
-export const createRouterAgent = () => {
-  const router = createAgent({
-    name: 'content-router',
-    model: 'gpt-4',
-    temperature: 0.7,
-    systemPrompt: ROUTER_PROMPT
-  });
-
-  return {
-    async route(input: string) {
-      try {
-        // Use generateObject with proper schema and description
-        const { object: response } = await generateObject({
-          model: router,
-          schema: routerSchema,
-          schemaName: 'ContentRouter',
-          schemaDescription: 'Routes user requests to appropriate content management agents',
-          prompt: input,
-          mode: 'tool' // Use tool mode for better structured output
-        });
-
-        // Create appropriate agent based on routing decision
-        let agent: Agent | undefined;
-        switch (response.agentType) {
-          case 'strategy':
-            agent = createStrategyAgent();
-            break;
-          case 'content':
-            agent = createContentAgent();
-            break;
-          case 'research':
-            agent = createResearchAgent();
-            break;
-          case 'management':
-            agent = createManagementAgent();
-            break;
-          default:
-            return {
-              type: 'general_query',
-              response: await router.generateText({ prompt: input })
-            };
-        }
+const createGeneralAgent = (): Agent => createAgent({
+  name: 'general-agent',
+  model: 'openai:gpt-4o-mini',
+  temperature: 0.7,
+  systemPrompt: 'You are a helpful assistant for a content management system. Answer general questions about what it can do.'
+});
 
-        return {
-          type: 'task',
-          agent,
-          context: response.context
-        };
-      } catch (error) {
-        console.error('Router error:', error);
-        // Fallback to general query if structured generation fails
-        return {
-          type: 'general_query',
-          response: await router.generateText({ prompt: input })
-        };
-      }
-    }
-  };
-};
+// Create router agent
+export const createRouterAgent = () => createRouter({
+  name: 'content-router',
+  model: 'openai:gpt-4o',
+  systemPrompt: ROUTER_PROMPT,
+  schema: routerSchema,
+  routes: {
+    strategy: { agent: createStrategyAgent(), description: 'Create or update a content strategy' },
+    content: { agent: createContentAgent(), description: 'Create or format content for a platform' },
+    research: { agent: createResearchAgent(), description: 'Research a topic for content creation' },
+    management: { agent: createManagementAgent(), description: 'Update or organize existing content' },
+    general: { agent: createGeneralAgent(), description: 'General questions and conversation' }
+  },
+  defaultRoute: 'general',
+  minConfidence: 0.6
+});
 
 // Helper function to validate and process router input
 export const processRouterInput = (input: unknown) => {
   return routerSchema.parse(input);
-}; 
\ No newline at end of file
+};
@@ -168,5 +168,8 @@ export const storageTool = createTool({
     const contentId = id || Math.random().toString(36).substring(7);
     mockDb.content.set(contentId, { content, type, timestamp: new Date() });
     return { id: contentId, status: 'stored' };
-  }
+  },
+  cache: false,
+  // Content is only stored once someone has approved it
+  requiresApproval: true
 }); 
\ No newline at end of file
@@ -1,11 +1,11 @@
 import { Langfuse } from 'langfuse';
-import { createAgent } from '../core/agents/agent.config.js';
+import { createAgent } from '../core/agents/base-agent.js';
 import { getModel } from '../core/model-providers/index.js';
 import { config } from 'dotenv';
 import { formatResponse, setDebugOptions } from '../core/agents/utils.js';
 import { tool } from 'ai';
 import { z } from 'zod';
-import type { AgentMessage, AgentResponse } from '../core/agents/types';
+import { createInMemoryStore } from '../core/memory/index.js';
 
 // Load environment variables
 config();
@@ -57,75 +57,49 @@ async function testConversation() {
 
   const agent = createAgent({
     name: 'conversation-agent',
+    model: getModel('openai:gpt-4o-mini'),
     langfuse,
     createNewTrace: true,
+    systemPrompt: CONVERSATION_AGENT_PROMPT,
+    tools: {
+      getWeather: createWeatherTool()
+    },
+    maxSteps: 2,
+    // History is loaded before and stored after every run
+    memory: createInMemoryStore(),
     metadata: {
       environment: 'test',
       version: '1.0.0'
     }
   });
 
-  // Keep track of conversation history
-  const messages: AgentMessage[] = [
-    { role: 'system', content: CONVERSATION_AGENT_PROMPT }
-  ];
+  const conversationId = 'weather-conversation';
 
   try {
     // First message - Ask about weather in San Francisco
     console.log('\\n📤 First message: Asking about San Francisco weather...');
-    const result1 = await agent({
-      model: getModel('openai:gpt-4o-mini'),
-      systemPrompt: CONVERSATION_AGENT_PROMPT,
-      tools: {
-        getWeather: createWeatherTool()
-      },
-      maxSteps: 2,
-      messages
-    }, "What's the weather like in San Francisco?") as AgentResponse;
+    const result1 = await agent.generate({
+      conversationId,
+      prompt: "What's the weather like in San Francisco?"
+    });
 
     console.log('📥 Agent response:', formatResponse(result1));
-    
-    // Add the interaction to history
-    if (result1.messages?.[0]?.content?.[0]?.text) {
-      messages.push(
-        { role: 'user', content: "What's the weather like in San Francisco?" },
-        { role: 'assistant', content: result1.messages[0].content[0].text }
-      );
-    }
 
     // Second message - Ask about London weather
     console.log('\\n📤 Second message: Asking about London weather...');
-    const result2 = await agent({
-      model: getModel('openai:gpt-4o-mini'),
-      systemPrompt: CONVERSATION_AGENT_PROMPT,
-      tools: {
-        getWeather: createWeatherTool()
-      },
-      maxSteps: 2,
-      messages
-    }, "How about in London?") as AgentResponse;
+    const result2 = await agent.generate({
+      conversationId,
+      prompt: "How about in London?"
+    });
 
     console.log('📥 Agent response:', formatResponse(result2));
-    
-    // Add the interaction to history
-    if (result2.messages?.[0]?.content?.[0]?.text) {
-      messages.push(
-        { role: 'user', content: "How about in London?" },
-        { role: 'assistant', content: result2.messages[0].content[0].text }
-      );
-    }
 
     // Third message - Ask about previous weather reports
     console.log('\\n📤 Third message: Asking about previous weather reports...');
-    const result3 = await agent({
-      model: getModel('openai:gpt-4o-mini'),
-      systemPrompt: CONVERSATION_AGENT_PROMPT,
-      tools: {
-        getWeather: createWeatherTool()
-      },
-      maxSteps: 2,
-      messages
-    }, "Can you compare the weather between San Francisco and London based on what you told me?");
+    const result3 = await agent.generate({
+      conversationId,
+      prompt: "Can you compare the weather between San Francisco and London based on what you told me?"
+    });
 
     console.log('📥 Agent response:', formatResponse(result3));
 
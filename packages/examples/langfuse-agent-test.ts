@@ -1,5 +1,5 @@
 import { Langfuse } from 'langfuse';
-import { createAgent } from '../core/agents/agent.config.js';
+import { createAgent } from '../core/agents/base-agent.js';
 import { getModel } from '../core/model-providers/index.js';
 import { config } from 'dotenv';
 import { formatResponse, formatStructuredResponse, setDebugOptions, debug } from '../core/agents/utils.js';
@@ -31,16 +31,22 @@ Always use the actual data from the weather tool in your response.`;
 
 const STRUCTURED_WEATHER_AGENT_PROMPT = `You are a weather analysis agent. Follow these steps EXACTLY in order:
 1. First, use the weather tool ONCE to get current conditions for the location
-2. Then, use the weatherAnalysis tool to provide your FINAL response with these exact fields:
+2. Then, provide your FINAL response with these exact fields:
    - temperature: copy the exact temperature from the weather data
    - conditions: copy the exact conditions from the weather data
    - recommendation: set to true if conditions are rainy or cloudy, false if sunny
    - advice: provide a short weather-appropriate recommendation
 
-The weatherAnalysis tool call MUST be your final action.
-Your final response will be the structured output from the weatherAnalysis tool.
 Do not add any additional text or explanation.`;
 
+// Structured output schema
+const weatherAnalysisSchema = z.object({
+  temperature: z.number().describe('The current temperature'),
+  conditions: z.string().describe('The current weather conditions'),
+  recommendation: z.boolean().describe('Whether to bring an umbrella'),
+  advice: z.string().describe('Weather-appropriate recommendation')
+});
+
 // Tool Definitions
 function createWeatherTool() {
   return tool({
@@ -63,23 +69,6 @@ function createWeatherTool() {
   });
 }
 
-function createWeatherAnalysisTool() {
-  return tool({
-    description: 'Provide a structured analysis of weather data',
-    parameters: z.object({
-      temperature: z.number().describe('The current temperature'),
-      conditions: z.string().describe('The current weather conditions'),
-      recommendation: z.boolean().describe('Whether to bring an umbrella'),
-      advice: z.string().describe('Weather-appropriate recommendation')
-    }),
-    execute: async (args) => {
-      debug('Weather analysis tool result:', 'logToolCalls');
-      debug(JSON.stringify(args, null, 2), 'logToolCalls');
-      return args;
-    }
-  });
-}
-
 function createUnreliableTool() {
   return tool({
     description: 'A tool that might fail',
@@ -108,6 +97,7 @@ async function testNormalAgent() {
 
   const agent = createAgent({
     name: 'weather-agent',
+    model: getModel('openai:gpt-4o-mini'),
     langfuse,
     createNewTrace: true,
     metadata: {
@@ -118,14 +108,14 @@ async function testNormalAgent() {
 
   try {
     console.log('📤 Sending request to agent...');
-    const result = await agent({
-      model: getModel('openai:gpt-4o-mini'),
+    const result = await agent.generate({
       systemPrompt: WEATHER_AGENT_PROMPT,
       tools: {
         getWeather: createWeatherTool()
       },
-      maxSteps: 2
-    }, 'What\'s the weather like in San Francisco and should I bring an umbrella?');
+      maxSteps: 2,
+      prompt: 'What\'s the weather like in San Francisco and should I bring an umbrella?'
+    });
 
     console.log('📥 Agent response:', formatResponse(result));
   } catch (error) {
@@ -144,6 +134,7 @@ async function testServerlessAgent() {
 
   const agent = createAgent({
     name: 'serverless-weather-agent',
+    model: getModel('openai:gpt-4o-mini'),
     langfuse,
     createNewTrace: true,
     isServerless: true,
@@ -156,27 +147,27 @@ async function testServerlessAgent() {
   try {
     // Test successful case
     console.log('📤 Testing successful case...');
-    const result1 = await agent({
-      model: getModel('openai:gpt-4o-mini'),
+    const result1 = await agent.generate({
       systemPrompt: WEATHER_AGENT_PROMPT,
       tools: {
         getWeather: createWeatherTool()
       },
-      maxSteps: 2
-    }, 'What\'s the weather like in London?');
+      maxSteps: 2,
+      prompt: 'What\'s the weather like in London?'
+    });
 
     console.log('📥 Serverless agent success response:', formatResponse(result1));
 
     // Test error case
     console.log('\\n📤 Testing error case...');
-    const result2 = await agent({
-      model: getModel('openai:gpt-4o-mini'),
+    const result2 = await agent.generate({
       systemPrompt: 'Test the unreliable tool with shouldFail=true.',
       tools: {
         unreliable: createUnreliableTool()
       },
-      maxSteps: 2
-    }, 'Test the tool with shouldFail set to true');
+      maxSteps: 2,
+      prompt: 'Test the tool with shouldFail set to true'
+    });
 
     console.log('📥 Serverless agent error case response:', formatResponse(result2));
   } catch (error) {
@@ -195,6 +186,8 @@ async function testStructuredOutput() {
 
   const agent = createAgent({
     name: 'structured-weather-agent',
+    model: getModel('openai:gpt-4o-mini'),
+    outputSchema: weatherAnalysisSchema,
     langfuse,
     createNewTrace: true,
     metadata: {
@@ -205,18 +198,18 @@ async function testStructuredOutput() {
 
   try {
     console.log('📤 Testing structured output...');
-    const result = await agent({
-      model: getModel('openai:gpt-4o-mini'),
+    const result = await agent.generate({
       systemPrompt: STRUCTURED_WEATHER_AGENT_PROMPT,
       tools: {
-        getWeather: createWeatherTool(),
-        weatherAnalysis: createWeatherAnalysisTool()
+        getWeather: createWeatherTool()
       },
       maxSteps: 2,
-      requireStructuredOutput: true
-    }, 'Analyze the weather in Seattle');
+      prompt: 'Analyze the weather in Seattle'
+    });
 
-    console.log('📥 Structured output response:', formatStructuredResponse(result));
+    // Typed as z.infer<typeof weatherAnalysisSchema>
+    console.log('📥 Umbrella needed:', result.structuredOutput?.recommendation);
+    console.log('📥 Structured output response:', formatStructuredResponse(result.structuredOutput));
   } catch (error) {
     console.error('❌ Structured output error:', error instanceof Error ? error.message : String(error));
   }
@@ -233,6 +226,7 @@ async function testLangfuseFailure() {
 
   const agent = createAgent({
     name: 'resilient-agent',
+    model: getModel('openai:gpt-4o-mini'),
     langfuse,
     createNewTrace: true,
     metadata: {
@@ -243,14 +237,14 @@ async function testLangfuseFailure() {
 
   try {
     console.log('📤 Testing agent resilience...');
-    const result = await agent({
-      model: getModel('openai:gpt-4o-mini'),
+    const result = await agent.generate({
       systemPrompt: WEATHER_AGENT_PROMPT,
       tools: {
         getWeather: createWeatherTool()
       },
-      maxSteps: 2
-    }, 'What\'s the weather like in Tokyo?');
+      maxSteps: 2,
+      prompt: 'What\'s the weather like in Tokyo?'
+    });
 
     console.log('📥 Agent response (despite Langfuse failure):', formatResponse(result));
   } catch (error) {
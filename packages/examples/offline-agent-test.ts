@@ -0,0 +1,165 @@
+import * as assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { z } from 'zod';
+import { createAgent } from '../core/agents/base-agent';
+import { createContentResearchAgent } from '../core/agents/specialized/content/content-researcher';
+import { LocalResearchTool } from '../core/tools/local-research/local-research-tool';
+import type { ResearchResult } from '../core/tools/research-types';
+import { createTool } from '../core/tools/types.config';
+import { createMockModel, createRecorder, registerMockModel } from '../core/testing/index';
+import { createKnowledgeBase, createRetrieveTool, loadDirectory } from '../core/rag/index';
+
+// Runs without any provider keys: the models answer from scripts or from a recorded fixture
+
+const getWeather = createTool({
+  name: 'getWeather',
+  description: 'Get the current weather for a city',
+  parameters: z.object({ city: z.string() }),
+  execute: async ({ city }) => ({ city, conditions: 'sunny', temperature: 21 })
+});
+
+async function scriptedRun() {
+  const model = createMockModel({
+    responses: [
+      { toolCalls: [{ toolName: 'getWeather', args: { city: 'London' } }] },
+      { text: 'It is sunny and 21°C in London.' }
+    ]
+  });
+  const agent = createAgent({ name: 'weather-agent', model, tools: { getWeather } });
+
+  const response = await agent.generate({ prompt: 'What is the weather in London?' });
+  assert.equal(response.text, 'It is sunny and 21°C in London.');
+  assert.deepEqual(response.toolCalls, [{ toolName: 'getWeather', args: { city: 'London' } }]);
+  // The second call sees the tool result
+  assert.equal(model.calls.length, 2);
+  assert.equal(model.calls[1].options.prompt.at(-1)?.role, 'tool');
+  console.log('✅ scripted tool call');
+}
+
+async function approvalRun() {
+  // The run suspends before the model sees the tool call's result, in both generate and stream
+  const sendInvoice = createTool({
+    name: 'sendInvoice',
+    description: 'Send an invoice to a customer',
+    parameters: z.object({ customer: z.string() }),
+    execute: async ({ customer }) => ({ sent: true, customer }),
+    requiresApproval: true
+  });
+  const script = () => createMockModel({
+    responses: [
+      { toolCalls: [{ toolName: 'sendInvoice', args: { customer: 'acme' } }] },
+      { text: 'The invoice was sent to acme.' }
+    ]
+  });
+
+  const generateModel = script();
+  const agent = createAgent({ name: 'billing-agent', model: generateModel, tools: { sendInvoice } });
+  const response = await agent.generate({ prompt: 'Send acme their invoice' });
+  assert.equal(response.status, 'suspended');
+  assert.equal(generateModel.calls.length, 1);
+  const [pending] = response.pendingApprovals ?? [];
+  const resumed = await agent.resumeRun(response.runId, { approvals: [{ approvalId: pending.approvalId, action: 'approve' }] });
+  assert.equal(resumed.text, 'The invoice was sent to acme.');
+
+  const streamModel = script();
+  const streamingAgent = createAgent({ name: 'billing-agent', model: streamModel, tools: { sendInvoice } });
+  let suspendedRunId: string | undefined;
+  const stream = streamingAgent.stream({
+    prompt: 'Send acme their invoice',
+    onEvent: (event) => {
+      if (event.type === 'agent-suspended') suspendedRunId = event.content.runId;
+    }
+  });
+  await stream.text();
+  assert.ok(suspendedRunId);
+  assert.equal(streamModel.calls.length, 1);
+  console.log('✅ tool approval');
+}
+
+async function registeredRun() {
+  // Agents configured by name resolve the registered script through getModel
+  registerMockModel('weather', ({ lastUserMessage }) => ({
+    text: lastUserMessage?.includes('Paris') ? 'Cloudy in Paris.' : 'I only know about Paris.'
+  }));
+  const agent = createAgent({ name: 'weather-agent', model: 'mock:weather' });
+
+  assert.equal((await agent.generate({ prompt: 'Weather in Paris?' })).text, 'Cloudy in Paris.');
+  assert.equal((await agent.generate({ prompt: 'Weather in Rome?' })).text, 'I only know about Paris.');
+  console.log('✅ registered mock model');
+}
+
+async function replayedRun() {
+  // Record once with FIXTURE_MODE=record and a live model; every later run replays the fixture.
+  // The mock model stands in for the live one here, so the example records on its first run.
+  const recorder = createRecorder({
+    fixture: path.join(__dirname, 'fixtures', 'weather-agent.json'),
+    mode: process.env.FIXTURE_MODE ? undefined : 'auto'
+  });
+  const liveModel = createMockModel({
+    responses: [
+      { toolCalls: [{ toolName: 'getWeather', args: { city: 'Berlin' } }] },
+      { text: 'It is sunny in Berlin.' }
+    ]
+  });
+  const agent = createAgent({
+    name: 'weather-agent',
+    model: recorder.wrapModel(liveModel),
+    tools: recorder.wrapTools({ getWeather })
+  });
+
+  const response = await agent.generate({ prompt: 'What is the weather in Berlin?' });
+  assert.equal(response.text, 'It is sunny in Berlin.');
+  console.log(`✅ ${liveModel.calls.length === 0 ? 'replayed' : 'recorded'} run`);
+}
+
+async function localResearchRun() {
+  // The content research agent searches a folder of Markdown and HTML instead of the web
+  const researchTool = LocalResearchTool({ rootDir: path.join(__dirname, 'fixtures', 'research-corpus') });
+  registerMockModel('research', ({ options }) => {
+    const toolMessage = [...options.prompt].reverse().find(message => message.role === 'tool');
+    if (!toolMessage) {
+      return { toolCalls: [{ toolName: 'research', args: { query: 'annual billing discount' } }] };
+    }
+    const { result } = toolMessage.content[0] as { result: ResearchResult };
+    const sources = result.sources.map(({ source, startLine, endLine }) => `${source}:${startLine}-${endLine}`);
+    return { text: `Annual billing saves 20%.\n\nSources:\n${sources.join('\n')}` };
+  });
+  const agent = createContentResearchAgent('mock:research', { researchTool });
+
+  const response = await agent.generate({ prompt: 'Do customers get a discount for paying yearly?' });
+  assert.match(response.text, /^Sources:\npricing\.md:10-13$/m);
+  console.log('✅ local research');
+}
+
+async function retrievalRun() {
+  // The local embedder needs no provider, so the knowledge base is built offline too
+  const knowledge = createKnowledgeBase({ embedder: 'local' });
+  await knowledge.add(await loadDirectory(path.join(__dirname, 'fixtures', 'research-corpus')));
+  const model = createMockModel({
+    responses: [
+      { toolCalls: [{ toolName: 'retrieve', args: { query: 'annual billing discount' } }] },
+      { text: 'Annual billing saves 20% [1].' }
+    ]
+  });
+  const agent = createAgent({ name: 'support-agent', model, tools: { retrieve: createRetrieveTool(knowledge, { topK: 1 }) } });
+
+  await agent.generate({ prompt: 'Is there a discount for paying yearly?' });
+  const toolMessage = model.calls[1].options.prompt.at(-1);
+  const { result } = (toolMessage?.role === 'tool' ? toolMessage.content[0] : undefined) as { result: ResearchResult };
+  assert.deepEqual(result.sources.map(({ source, startLine, endLine }) => [source, startLine, endLine]), [['pricing.md', 10, 13]]);
+  console.log('✅ retrieval');
+}
+
+async function main() {
+  await scriptedRun();
+  await approvalRun();
+  await registeredRun();
+  await replayedRun();
+  await localResearchRun();
+  await retrievalRun();
+}
+
+main().catch((error) => {
+  console.error('❌', error);
+  process.exit(1);
+});
@@ -1,7 +1,8 @@
 import { NextRequest } from 'next/server';
 import { Langfuse } from 'langfuse';
 import { createAgent } from '../core/agents/base-agent';
-import { createLogger } from '../core/agents/utils';
+import { createLogger, httpTransport, jsonTransport } from '../core/logging/index';
+import { createJsonFileRunStore } from '../core/runs/index';
 import { getWeatherTool } from './tools/weather';
 import { searchDocsTool } from './tools/docs';
 
@@ -12,21 +13,24 @@ const langfuse = process.env.LANGFUSE_PUBLIC_KEY ? new Langfuse({
   baseUrl: process.env.LANGFUSE_BASE_URL
 }) : undefined;
 
-// Create a logger that sends to your logging service
+// JSON lines for the platform's log drain, and batches for your logging service.
+// Runs log through children of this logger, bound to the agent, run and tool call.
 const logger = createLogger({
-  send: async (level, msg, meta) => {
-    // Example: Send to your logging service
-    await fetch('https://your-logging-service.com/log', {
-      method: 'POST',
-      body: JSON.stringify({ level, msg, meta })
-    }).catch(console.error); // Non-blocking
-  }
+  bindings: { service: 'support-api' },
+  transports: [
+    jsonTransport(),
+    httpTransport({
+      url: 'https://your-logging-service.com/logs',
+      headers: { authorization: `Bearer ${process.env.LOG_SERVICE_TOKEN}` },
+      level: 'info'
+    })
+  ]
 });
 
 // Create the agent with its core configuration
 const agent = createAgent({
   name: 'support-agent',
-  model: 'gpt-4-turbo-preview', // Your model reference
+  model: 'openai:gpt-4-turbo-preview', // Model instance or "provider:model" string
   systemPrompt: `You are a helpful support agent that can answer questions and perform tasks.
 You have access to weather information and documentation search.
 Always be polite and professional.`,
@@ -35,71 +39,46 @@ Always be polite and professional.`,
     searchDocs: searchDocsTool
   },
   maxSteps: 5,
-  temperature: 0.7
+  temperature: 0.7,
+  // Checkpoint every step so a run cut off by the function timeout can be resumed
+  runStore: createJsonFileRunStore({ directory: '/tmp/agent-runs' }),
+  checkpoints: true
 });
 
 export async function POST(req: NextRequest) {
-  const { messages, userId } = await req.json();
+  const { messages, userId, runId } = await req.json();
 
-  // Create a new trace for this conversation
-  const trace = langfuse?.trace({
-    id: `conv_${Date.now()}`,
-    userId,
-    metadata: { source: 'api' }
-  });
-
-  // Create streaming response
-  const stream = new TransformStream();
-  const writer = stream.writable.getWriter();
-
-  // Run the agent with runtime options
-  agent.run({
+  // Run the agent and stream the response back. The runtime traces the run, its steps
+  // and tool calls to Langfuse.
+  return agent.stream({
     messages,
+    runId,    // Client-generated, so the client can resume the run if the stream is cut off
     streamCallbacks: {
-      stream: stream,
-      onStepFinish: async (info) => {
-        // Log step completion to Langfuse
-        trace?.generation({
-          name: 'agent-step',
-          startTime: new Date(),
-          endTime: new Date(),
-          model: 'gpt-4-turbo-preview',
-          modelParameters: {
-            temperature: 0.7,
-            maxTokens: info.tokens
-          },
-          completion: info.text
-        });
-      }
+      // Send buffered logs before the function is frozen
+      onFinish: () => logger.flush()
     },
     context: {
       userId,
       logging: {
         logger,
-        langfuse,
-        trace
+        langfuse
       },
       metadata: {
         source: 'api',
         timestamp: new Date().toISOString()
       }
     }
-  }).catch(error => {
-    console.error('Agent error:', error);
-    writer.write(encoder.encode(JSON.stringify({
-      type: 'error',
-      content: { message: error.message }
-    })));
   });
+}
 
-  return new Response(stream.readable, {
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-    },
+// Continues a checkpointed run, or one suspended for tool approval
+export async function PUT(req: NextRequest) {
+  const { runId, approvals, userId } = await req.json();
+
+  const response = await agent.resumeRun(runId, {
+    approvals,
+    context: { userId, logging: { logger, langfuse } }
   });
+  await logger.flush();
+  return Response.json(response);
 }
-
-// Helper for encoding messages
-const encoder = new TextEncoder(); 
\ No newline at end of file
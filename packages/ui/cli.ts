@@ -0,0 +1,21 @@
+import { startTraceViewer } from './server';
+
+// Usage: bun run cli.ts --traces ./traces [--runs ./runs] [--port 4400]
+function argument(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const viewer = await startTraceViewer({
+    tracesDirectory: argument('traces') ?? process.env.TRACES_DIR ?? './traces',
+    runsDirectory: argument('runs') ?? process.env.RUNS_DIR,
+    port: argument('port') ? Number(argument('port')) : undefined
+  });
+  console.log(`Trace viewer running at ${viewer.url}`);
+}
+
+main().catch(error => {
+  console.error('❌ Failed to start the trace viewer:', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -0,0 +1,11 @@
+export { startTraceViewer } from './server';
+export { createTraceReader, summarizeTrace } from './trace-reader';
+export { renderViewerPage } from './viewer-page';
+export type {
+  TraceDetail,
+  TraceReaderOptions,
+  TraceStatus,
+  TraceSummary,
+  TraceViewer,
+  TraceViewerOptions
+} from './types';
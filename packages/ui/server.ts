@@ -0,0 +1,65 @@
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createTraceReader } from './trace-reader';
+import type { TraceViewer, TraceViewerOptions } from './types';
+import { renderViewerPage } from './viewer-page';
+
+const DEFAULT_PORT = 4400;
+
+/**
+ * Serves the trace viewer: the page at `/`, the run list at `/api/traces` and a
+ * run with all its spans at `/api/traces/<id>`. Files are read on every request,
+ * so runs show up while they are being recorded.
+ *
+ * Example usage:
+ * ```typescript
+ * const viewer = await startTraceViewer({ tracesDirectory: './traces', runsDirectory: './runs' });
+ * console.log(`Trace viewer at ${viewer.url}`);
+ * ```
+ */
+export async function startTraceViewer(options: TraceViewerOptions): Promise<TraceViewer> {
+  const { port = DEFAULT_PORT, host = '127.0.0.1' } = options;
+  const reader = createTraceReader(options);
+  const page = renderViewerPage();
+
+  const sendJson = (response: http.ServerResponse, status: number, body: unknown) => {
+    response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    response.end(JSON.stringify(body));
+  };
+
+  const server = http.createServer(async (request, response) => {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    try {
+      if (request.method !== 'GET') {
+        sendJson(response, 405, { error: 'Method not allowed' });
+      } else if (pathname === '/') {
+        response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        response.end(page);
+      } else if (pathname === '/api/traces') {
+        sendJson(response, 200, await reader.listTraces());
+      } else if (pathname.startsWith('/api/traces/')) {
+        const detail = await reader.loadTrace(decodeURIComponent(pathname.slice('/api/traces/'.length)));
+        if (detail) {
+          sendJson(response, 200, detail);
+        } else {
+          sendJson(response, 404, { error: 'Trace not found' });
+        }
+      } else {
+        sendJson(response, 404, { error: 'Not found' });
+      }
+    } catch (error) {
+      sendJson(response, 500, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve());
+  });
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    close: () => new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  };
+}
@@ -0,0 +1,101 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { RunState } from '../core/runs/types';
+import type { TraceRecord } from '../core/tracing/json-file/json-file-tracer';
+import type { TraceDetail, TraceReaderOptions, TraceSummary } from './types';
+
+async function readJson<T>(file: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.promises.readFile(file, 'utf8')) as T;
+  } catch (error) {
+    // Missing files and files caught mid-write are skipped rather than failing the whole list
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' || error instanceof SyntaxError) return undefined;
+    throw error;
+  }
+}
+
+export function summarizeTrace(trace: TraceRecord, run?: RunState): TraceSummary {
+  const { spans } = trace;
+  const generations = spans.filter(span => span.type === 'generation');
+  const errors = spans.filter(span => span.level === 'ERROR').length;
+  const open = spans.some(span => !span.endTime);
+  const lastEnd = Math.max(...spans.map(span => (span.endTime ? Date.parse(span.endTime) : 0)));
+
+  return {
+    id: trace.id,
+    name: trace.name,
+    userId: trace.userId,
+    startTime: trace.startTime,
+    durationMs: !open && spans.length > 0 ? lastEnd - Date.parse(trace.startTime) : undefined,
+    status: errors > 0 ? 'error' : open ? 'running' : 'ok',
+    generations: generations.length,
+    toolCalls: spans.filter(span => span.name.startsWith('tool-execution-')).length,
+    errors,
+    totalTokens: generations.reduce((total, span) => total + (span.usage?.totalTokens ?? 0), 0),
+    models: [...new Set(generations.flatMap(span => (span.model ? [span.model] : [])))],
+    runStatus: run?.status
+  };
+}
+
+// A trace can hold several runs, e.g. of an agent used as a tool. The one awaiting approval is
+// shown, else the latest.
+function indexRunsByTrace(runs: RunState[]): Map<string, RunState> {
+  const byTrace = new Map<string, RunState>();
+  for (const run of runs) {
+    const current = byTrace.get(run.traceId);
+    if (
+      !current ||
+      (run.status === 'suspended' && current.status !== 'suspended') ||
+      (run.status === current.status && run.updatedAt > current.updatedAt)
+    ) {
+      byTrace.set(run.traceId, run);
+    }
+  }
+  return byTrace;
+}
+
+/**
+ * Reads the traces written by a JSON-file tracer, joined by trace id with the runs a
+ * JSON-file run store still holds (suspended or checkpointed runs)
+ */
+export function createTraceReader({ tracesDirectory, runsDirectory }: TraceReaderOptions) {
+  // The tracer names its files after the encoded trace id
+  const fileFor = (directory: string, id: string) => path.join(directory, `${encodeURIComponent(id)}.json`);
+
+  const listJsonFiles = async (directory: string) => {
+    try {
+      return (await fs.promises.readdir(directory)).filter(file => file.endsWith('.json'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  };
+
+  // Run files are named after the run id, so every run is read to find those of a trace
+  const loadRuns = async () => {
+    if (!runsDirectory) return new Map<string, RunState>();
+    const runs = await Promise.all((await listJsonFiles(runsDirectory)).map(file => readJson<RunState>(path.join(runsDirectory, file))));
+    return indexRunsByTrace(runs.filter((run): run is RunState => !!run));
+  };
+
+  return {
+    // Newest first
+    async listTraces(): Promise<TraceSummary[]> {
+      const [files, runs] = await Promise.all([listJsonFiles(tracesDirectory), loadRuns()]);
+      const summaries = await Promise.all(files.map(async file => {
+        const trace = await readJson<TraceRecord>(path.join(tracesDirectory, file));
+        return trace && summarizeTrace(trace, runs.get(trace.id));
+      }));
+      return summaries
+        .filter((summary): summary is TraceSummary => !!summary)
+        .sort((a, b) => b.startTime.localeCompare(a.startTime));
+    },
+
+    async loadTrace(id: string): Promise<TraceDetail | undefined> {
+      const trace = await readJson<TraceRecord>(fileFor(tracesDirectory, id));
+      if (!trace) return undefined;
+      const run = (await loadRuns()).get(trace.id);
+      return { summary: summarizeTrace(trace, run), trace, run };
+    }
+  };
+}
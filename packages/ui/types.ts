@@ -0,0 +1,41 @@
+import type { RunState } from '../core/runs/types';
+import type { TraceRecord } from '../core/tracing/json-file/json-file-tracer';
+
+export type TraceStatus = 'ok' | 'error' | 'running';
+
+// One row of the run list
+export interface TraceSummary {
+  id: string;
+  name: string;
+  userId?: string;
+  startTime: string;
+  durationMs?: number;                 // Until the last span ended; missing while spans are open
+  status: TraceStatus;                 // 'error' when any span failed, 'running' while spans are open
+  generations: number;
+  toolCalls: number;
+  errors: number;
+  totalTokens: number;
+  models: string[];
+  runStatus?: RunState['status'];      // Set when the run store still holds the run
+}
+
+export interface TraceDetail {
+  summary: TraceSummary;
+  trace: TraceRecord;
+  run?: RunState;                      // Messages and pending approvals of a suspended or checkpointed run
+}
+
+export interface TraceReaderOptions {
+  tracesDirectory: string;             // Directory of a JSON-file tracer
+  runsDirectory?: string;              // Directory of a JSON-file run store
+}
+
+export interface TraceViewerOptions extends TraceReaderOptions {
+  port?: number;                       // Default 4400; 0 picks a free port
+  host?: string;                       // Default 127.0.0.1, so traces are not exposed on the network
+}
+
+export interface TraceViewer {
+  url: string;
+  close: () => Promise<void>;
+}
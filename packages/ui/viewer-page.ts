@@ -0,0 +1,203 @@
+// Styles and script of the viewer; the script builds strings without template literals
+// so the page can live in this template literal
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 13px/1.4 system-ui, sans-serif; color: #1f2328; display: flex; height: 100vh; }
+  aside { width: 320px; border-right: 1px solid #d0d7de; overflow-y: auto; flex-shrink: 0; }
+  main { flex: 1; overflow-y: auto; padding: 16px 24px; }
+  header { display: flex; justify-content: space-between; align-items: center; padding: 12px; border-bottom: 1px solid #d0d7de; }
+  h1 { font-size: 15px; margin: 0; }
+  h2 { font-size: 14px; margin: 20px 0 8px; }
+  button { font: inherit; cursor: pointer; }
+  .run { padding: 8px 12px; border-bottom: 1px solid #eaeef2; cursor: pointer; }
+  .run:hover, .run.selected { background: #f6f8fa; }
+  .muted { color: #656d76; font-size: 12px; }
+  .status { display: inline-block; width: 8px; height: 8px; border-radius: 50%; margin-right: 6px; }
+  .status-ok { background: #1a7f37; } .status-error { background: #cf222e; } .status-running { background: #bf8700; }
+  .stats { display: flex; gap: 16px; flex-wrap: wrap; margin-top: 4px; }
+  .row { display: flex; align-items: center; height: 24px; cursor: pointer; border-radius: 4px; }
+  .row:hover, .row.selected { background: #f6f8fa; }
+  .label { width: 320px; flex-shrink: 0; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .lane { flex: 1; position: relative; height: 14px; }
+  .bar { position: absolute; height: 100%; border-radius: 3px; min-width: 2px; background: #8c959f; }
+  .bar-generation { background: #0969da; } .bar-tool { background: #bc4c00; } .bar-error { background: #cf222e; }
+  .timing { width: 140px; text-align: right; flex-shrink: 0; }
+  .message { border: 1px solid #d0d7de; border-radius: 6px; padding: 8px; margin-bottom: 6px; }
+  .error { color: #cf222e; }
+  pre { background: #f6f8fa; padding: 8px; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; word-break: break-word; margin: 4px 0; }
+`;
+
+const SCRIPT = `
+  let selectedTrace;
+
+  function el(tag, attributes, children) {
+    const node = document.createElement(tag);
+    Object.entries(attributes || {}).forEach(function (entry) {
+      if (entry[0] === 'onclick') node.onclick = entry[1]; else node.setAttribute(entry[0], entry[1]);
+    });
+    (children || []).forEach(function (child) {
+      // Conditional children come in as false, '' or undefined
+      if (child || child === 0) node.append(child instanceof Node ? child : String(child));
+    });
+    return node;
+  }
+
+  function json(value) {
+    return el('pre', {}, [typeof value === 'string' ? value : JSON.stringify(value, null, 2)]);
+  }
+
+  function duration(ms) {
+    if (ms === undefined || ms === null) return 'running';
+    return ms < 1000 ? ms + 'ms' : (ms / 1000).toFixed(2) + 's';
+  }
+
+  function messageText(content) {
+    if (typeof content === 'string') return content;
+    return (content || []).map(function (part) {
+      if (part.type === 'text') return part.text;
+      if (part.type === 'tool-call') return 'Tool call ' + part.toolName + ' ' + JSON.stringify(part.args);
+      if (part.type === 'tool-result') return 'Tool result ' + part.toolName + ' ' + JSON.stringify(part.result);
+      return JSON.stringify(part);
+    }).join('\\n');
+  }
+
+  function renderMessages(messages) {
+    return el('div', {}, messages.map(function (message) {
+      return el('div', { class: 'message' }, [el('div', { class: 'muted' }, [message.role]), json(messageText(message.content))]);
+    }));
+  }
+
+  // Spans in tree order, each with its depth
+  function spanTree(spans) {
+    const children = {};
+    spans.forEach(function (span) { (children[span.parentId || ''] = children[span.parentId || ''] || []).push(span); });
+    const ordered = [];
+    function walk(parentId, depth) {
+      (children[parentId] || []).sort(function (a, b) { return a.startTime.localeCompare(b.startTime); })
+        .forEach(function (span) { ordered.push({ span: span, depth: depth }); walk(span.id, depth + 1); });
+    }
+    walk('', 0);
+    return ordered;
+  }
+
+  function renderSpanDetail(span) {
+    const detail = document.getElementById('span-detail');
+    detail.replaceChildren(el('div', {}, [
+      el('h2', {}, [span.name]),
+      el('div', { class: 'stats muted' }, [
+        el('span', {}, [span.type]),
+        span.model && el('span', {}, ['model ' + span.model]),
+        el('span', {}, [duration(span.durationMs)]),
+        span.usage && el('span', {}, [span.usage.promptTokens + ' prompt + ' + span.usage.completionTokens + ' completion tokens']),
+        span.level && el('span', { class: span.level === 'ERROR' ? 'error' : '' }, [span.level])
+      ]),
+      span.statusMessage && el('p', { class: span.level === 'ERROR' ? 'error' : '' }, [span.statusMessage]),
+      span.input !== undefined && el('h2', {}, ['Input']), span.input !== undefined && json(span.input),
+      span.output !== undefined && el('h2', {}, ['Output']), span.output !== undefined && json(span.output),
+      span.metadata && el('h2', {}, ['Metadata']), span.metadata && json(span.metadata)
+    ]));
+  }
+
+  function renderTimeline(trace) {
+    const start = Date.parse(trace.startTime);
+    const ends = trace.spans.map(function (span) { return span.endTime ? Date.parse(span.endTime) : Date.now(); });
+    const total = Math.max.apply(null, ends.concat([start + 1])) - start;
+
+    return el('div', {}, spanTree(trace.spans).map(function (item) {
+      const span = item.span;
+      const offset = Date.parse(span.startTime) - start;
+      const length = (span.endTime ? Date.parse(span.endTime) : Date.now()) - Date.parse(span.startTime);
+      const kind = span.level === 'ERROR' ? 'error' : span.type === 'generation' ? 'generation' : span.name.indexOf('tool-execution-') === 0 ? 'tool' : 'span';
+      const row = el('div', { class: 'row' }, [
+        el('div', { class: 'label', style: 'padding-left:' + item.depth * 16 + 'px', title: span.name }, [span.name]),
+        el('div', { class: 'lane' }, [el('div', {
+          class: 'bar bar-' + kind,
+          style: 'left:' + (offset / total) * 100 + '%;width:' + (length / total) * 100 + '%'
+        })]),
+        el('div', { class: 'timing muted' }, [duration(span.durationMs) + (span.usage ? ' · ' + span.usage.totalTokens + ' tok' : '')])
+      ]);
+      row.onclick = function () {
+        document.querySelectorAll('.row.selected').forEach(function (node) { node.classList.remove('selected'); });
+        row.classList.add('selected');
+        renderSpanDetail(span);
+      };
+      return row;
+    }));
+  }
+
+  async function showTrace(id) {
+    selectedTrace = id;
+    document.querySelectorAll('.run').forEach(function (node) { node.classList.toggle('selected', node.dataset.id === id); });
+    const detail = await (await fetch('/api/traces/' + encodeURIComponent(id))).json();
+    const summary = detail.summary, trace = detail.trace, run = detail.run;
+    const input = trace.input || {};
+    const messages = run ? run.messages : (input.messages || []).concat(input.prompt ? [{ role: 'user', content: input.prompt }] : []);
+    const output = trace.output && (trace.output.structuredOutput || trace.output.text);
+
+    document.getElementById('detail').replaceChildren(el('div', {}, [
+      el('h1', {}, [el('span', { class: 'status status-' + summary.status }), trace.name]),
+      el('div', { class: 'stats muted' }, [
+        el('span', {}, [new Date(trace.startTime).toLocaleString()]),
+        el('span', {}, [duration(summary.durationMs)]),
+        el('span', {}, [summary.totalTokens + ' tokens']),
+        el('span', {}, [summary.generations + ' generations']),
+        el('span', {}, [summary.toolCalls + ' tool calls']),
+        summary.errors > 0 && el('span', { class: 'error' }, [summary.errors + ' errors']),
+        summary.models.length > 0 && el('span', {}, [summary.models.join(', ')]),
+        trace.userId && el('span', {}, ['user ' + trace.userId]),
+        el('span', {}, [trace.id])
+      ]),
+      run && el('p', {}, ['The run store holds this run as ' + run.status + '.']),
+      run && run.pendingApprovals.length > 0 && el('h2', {}, ['Pending approvals']),
+      run && run.pendingApprovals.length > 0 && json(run.pendingApprovals),
+      el('h2', {}, ['Messages']),
+      messages.length > 0 ? renderMessages(messages) : el('p', { class: 'muted' }, ['No messages recorded']),
+      output && el('h2', {}, ['Output']), output && json(output),
+      el('h2', {}, ['Timeline']),
+      renderTimeline(trace),
+      el('div', { id: 'span-detail' })
+    ]));
+  }
+
+  async function loadTraces() {
+    const traces = await (await fetch('/api/traces')).json();
+    document.getElementById('runs').replaceChildren.apply(document.getElementById('runs'), traces.map(function (summary) {
+      const node = el('div', { class: 'run' + (summary.id === selectedTrace ? ' selected' : '') }, [
+        el('div', {}, [el('span', { class: 'status status-' + summary.status }), summary.name]),
+        el('div', { class: 'muted' }, [
+          new Date(summary.startTime).toLocaleString() + ' · ' + duration(summary.durationMs) + ' · ' + summary.totalTokens + ' tok' +
+          (summary.runStatus ? ' · ' + summary.runStatus : '')
+        ])
+      ]);
+      node.dataset.id = summary.id;
+      node.onclick = function () { showTrace(summary.id); };
+      return node;
+    }));
+  }
+
+  document.getElementById('refresh').onclick = loadTraces;
+  loadTraces();
+  setInterval(loadTraces, 5000);
+`;
+
+/**
+ * The single page of the trace viewer; it loads runs from the viewer's JSON endpoints
+ */
+export function renderViewerPage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Agent traces</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <aside>
+    <header><h1>Agent runs</h1><button id="refresh">Refresh</button></header>
+    <div id="runs"></div>
+  </aside>
+  <main id="detail"><p class="muted">Select a run to see its timeline.</p></main>
+  <script>${SCRIPT}</script>
+</body>
+</html>`;
+}